@@ -0,0 +1,63 @@
+import { ConfigError, loadConfig } from './config';
+
+const REQUIRED_ENV = {
+    TELEGRAM_BOT_TOKEN: '123:test-token',
+    INTERCOM_ACCESS_TOKEN: 'test-access-token',
+    INTERCOM_CLIENT_SECRET: 'test-client-secret',
+    INTERCOM_ADMIN_ID: '7'
+};
+
+function problemsOf(env: NodeJS.ProcessEnv): string[] {
+    try {
+        loadConfig(env);
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            return error.problems;
+        }
+        throw error;
+    }
+    return [];
+}
+
+describe('loadConfig', () => {
+    it('loads the required settings with defaults for the rest', () => {
+        const config = loadConfig(REQUIRED_ENV);
+
+        expect(config.intercom.adminId).toBe('7');
+        expect(config.http.port).toBe(3000);
+        expect(config.closedConversationPolicy).toBe('reopen');
+    });
+
+    it('names every missing required variable', () => {
+        expect(problemsOf({})).toEqual([
+            'TELEGRAM_BOT_TOKEN is required',
+            'INTERCOM_ACCESS_TOKEN is required',
+            'INTERCOM_CLIENT_SECRET is required',
+            'INTERCOM_ADMIN_ID is required'
+        ]);
+    });
+
+    it('reports invalid values by the environment variable that set them', () => {
+        expect(problemsOf({
+            ...REQUIRED_ENV,
+            WEBHOOK_PORT: '70000',
+            CLOSED_CONVERSATION_POLICY: 'archive',
+            REDIS_URL: 'localhost:6379',
+            NOTIFY_EVENTS: 'closed,typing',
+            ALLOWED_GROUPS: '-100200,customers'
+        })).toEqual([
+            'WEBHOOK_PORT must be at most 65535',
+            'REDIS_URL must match ^rediss?://',
+            'CLOSED_CONVERSATION_POLICY must be one of reopen, new',
+            'ALLOWED_GROUPS[1] must match ^-?[0-9]+$',
+            'NOTIFY_EVENTS[1] must be one of assigned, snoozed, closed, opened'
+        ]);
+    });
+
+    it('rejects values that are not numbers or flags', () => {
+        expect(problemsOf({ ...REQUIRED_ENV, CONTEXT_MESSAGES: 'five', LOG_PAYLOADS: 'yes' })).toEqual([
+            'LOG_PAYLOADS must be "true" or "false", got "yes"',
+            'CONTEXT_MESSAGES must be a whole number, got "five"'
+        ]);
+    });
+});
@@ -0,0 +1,355 @@
+import fs from 'fs';
+import { NotificationKind, ServiceConfig } from './types';
+import { NOTIFICATION_KINDS } from './services/notification.service';
+import { JsonSchema, validateSchema } from './utils/schema';
+
+export class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const CLOSED_CONVERSATION_POLICIES = ['reopen', 'new'];
+const FORWARDING_MODES = ['all', 'addressed', 'keyword', 'members'];
+const forwardingKeywords: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+const contextMessages: JsonSchema = { type: 'integer', minimum: 0, maximum: 50 };
+const positiveInteger: JsonSchema = { type: 'integer', minimum: 1 };
+const notificationToggles: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(NOTIFICATION_KINDS.map(kind => [kind, { type: 'boolean' }])),
+    additionalProperties: false
+};
+
+/**
+ * Shape of the JSON file named by CONFIG_FILE. Every setting is optional there,
+ * environment variables take precedence over the file.
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        logLevel: { type: 'string', enum: LOG_LEVELS },
+        logPayloads: { type: 'boolean' },
+        proxyUrl: { type: 'string', pattern: '^https?://' },
+        http: {
+            type: 'object',
+            properties: {
+                port: { type: 'integer', minimum: 1, maximum: 65535 }
+            },
+            additionalProperties: false
+        },
+        telegram: {
+            type: 'object',
+            properties: {
+                token: { type: 'string', minLength: 1 },
+                webhook: {
+                    type: 'object',
+                    properties: {
+                        url: { type: 'string', pattern: '^https://' },
+                        path: { type: 'string', pattern: '^/' },
+                        // Telegram accepts 1-256 characters from A-Z, a-z, 0-9, _ and -
+                        secretToken: { type: 'string', pattern: '^[A-Za-z0-9_-]{1,256}$' }
+                    },
+                    required: ['url'],
+                    additionalProperties: false
+                },
+                commandsEnabled: { type: 'boolean' }
+            },
+            additionalProperties: false
+        },
+        intercom: {
+            type: 'object',
+            properties: {
+                accessToken: { type: 'string', minLength: 1 },
+                clientSecret: { type: 'string', minLength: 1 },
+                adminId: { type: 'string', minLength: 1 }
+            },
+            additionalProperties: false
+        },
+        storage: {
+            type: 'object',
+            properties: {
+                backend: { type: 'string', enum: ['redis', 'memory'] },
+                redisUrl: { type: 'string', pattern: '^rediss?://' }
+            },
+            additionalProperties: false
+        },
+        adminApi: {
+            type: 'object',
+            properties: {
+                token: { type: 'string', minLength: 16 }
+            },
+            additionalProperties: false
+        },
+        closedConversationPolicy: { type: 'string', enum: CLOSED_CONVERSATION_POLICIES },
+        forwardingMode: { type: 'string', enum: FORWARDING_MODES },
+        forwardingKeywords,
+        contextMessages,
+        groupApproval: {
+            type: 'object',
+            properties: {
+                required: { type: 'boolean' },
+                allowedGroups: { type: 'array', items: { type: 'string', pattern: '^-?[0-9]+$' } }
+            },
+            additionalProperties: false
+        },
+        shutdownTimeoutMs: positiveInteger,
+        retry: {
+            type: 'object',
+            properties: {
+                intervalMs: positiveInteger,
+                maxAttempts: positiveInteger,
+                baseDelayMs: positiveInteger,
+                maxDelayMs: positiveInteger
+            },
+            additionalProperties: false
+        },
+        notifications: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'array', items: { type: 'string', enum: NOTIFICATION_KINDS } },
+                templates: {
+                    type: 'object',
+                    properties: Object.fromEntries(NOTIFICATION_KINDS.map(kind => [kind, { type: 'string', minLength: 1 }])),
+                    additionalProperties: false
+                }
+            },
+            additionalProperties: false
+        },
+        groups: {
+            type: 'object',
+            description: 'Per-group overrides keyed by Telegram group ID',
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    closedConversationPolicy: { type: 'string', enum: CLOSED_CONVERSATION_POLICIES },
+                    notifications: notificationToggles,
+                    forwardingMode: { type: 'string', enum: FORWARDING_MODES },
+                    forwardingKeywords,
+                    contextMessages
+                },
+                additionalProperties: false
+            }
+        }
+    },
+    additionalProperties: false
+};
+
+/**
+ * Environment variable behind each setting. The file is validated on its own first, so a
+ * setting that is still invalid after merging was set through its variable.
+ */
+const ENV_NAMES: Record<string, string> = {
+    logLevel: 'LOG_LEVEL',
+    logPayloads: 'LOG_PAYLOADS',
+    proxyUrl: 'http_proxy/https_proxy',
+    'http.port': 'WEBHOOK_PORT',
+    'telegram.token': 'TELEGRAM_BOT_TOKEN',
+    'telegram.webhook.url': 'TELEGRAM_WEBHOOK_URL',
+    'telegram.webhook.path': 'TELEGRAM_WEBHOOK_PATH',
+    'telegram.webhook.secretToken': 'TELEGRAM_WEBHOOK_SECRET',
+    'telegram.commandsEnabled': 'BOT_COMMANDS_ENABLED',
+    'intercom.accessToken': 'INTERCOM_ACCESS_TOKEN',
+    'intercom.clientSecret': 'INTERCOM_CLIENT_SECRET',
+    'intercom.adminId': 'INTERCOM_ADMIN_ID',
+    'storage.backend': 'STORAGE_BACKEND',
+    'storage.redisUrl': 'REDIS_URL',
+    'adminApi.token': 'ADMIN_API_TOKEN',
+    closedConversationPolicy: 'CLOSED_CONVERSATION_POLICY',
+    forwardingMode: 'FORWARDING_MODE',
+    forwardingKeywords: 'FORWARDING_KEYWORDS',
+    contextMessages: 'CONTEXT_MESSAGES',
+    'groupApproval.required': 'GROUP_APPROVAL_REQUIRED',
+    'groupApproval.allowedGroups': 'ALLOWED_GROUPS',
+    shutdownTimeoutMs: 'SHUTDOWN_TIMEOUT_MS',
+    'retry.intervalMs': 'RETRY_INTERVAL_MS',
+    'retry.maxAttempts': 'RETRY_MAX_ATTEMPTS',
+    'retry.baseDelayMs': 'RETRY_BASE_DELAY_MS',
+    'retry.maxDelayMs': 'RETRY_MAX_DELAY_MS',
+    'notifications.enabled': 'NOTIFY_EVENTS',
+    ...Object.fromEntries(NOTIFICATION_KINDS.map(kind => [`notifications.templates.${kind}`, `NOTIFY_TEMPLATE_${kind.toUpperCase()}`]))
+};
+
+/**
+ * Rewrites "config.http.port must be ..." as "WEBHOOK_PORT must be ...", list entries keep
+ * their index ("ALLOWED_GROUPS[1] must match ...").
+ */
+function withEnvName(problem: string): string {
+    return problem.replace(/^config\.([\w.]+)/, (path, setting: string) => ENV_NAMES[setting] ?? path);
+}
+
+type RawConfig = Record<string, any>;
+
+function readConfigFile(path: string, problems: string[]): RawConfig {
+    try {
+        const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+        return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch (error) {
+        problems.push(`CONFIG_FILE ${path} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+        return {};
+    }
+}
+
+/**
+ * Builds the service configuration from environment variables and the optional JSON file
+ * named by CONFIG_FILE. Throws a ConfigError listing every problem found.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServiceConfig {
+    const problems: string[] = [];
+    const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, problems) : {};
+    const fileProblems = validateSchema(file, CONFIG_SCHEMA, 'CONFIG_FILE');
+    if (fileProblems.length > 0) {
+        throw new ConfigError([...problems, ...fileProblems]);
+    }
+
+    // Empty variables count as unset, like a missing line in .env
+    const text = (name: string): string | undefined => env[name] || undefined;
+    const integer = (name: string): number | undefined => {
+        const value = text(name);
+        if (value === undefined) {
+            return undefined;
+        }
+        if (!/^-?\d+$/.test(value)) {
+            problems.push(`${name} must be a whole number, got "${value}"`);
+            return undefined;
+        }
+        return Number(value);
+    };
+    const flag = (name: string): boolean | undefined => {
+        const value = text(name)?.toLowerCase();
+        if (value === undefined) {
+            return undefined;
+        }
+        if (value !== 'true' && value !== 'false') {
+            problems.push(`${name} must be "true" or "false", got "${value}"`);
+            return undefined;
+        }
+        return value === 'true';
+    };
+
+    const webhookUrl = text('TELEGRAM_WEBHOOK_URL') ?? file.telegram?.webhook?.url;
+    const templates: Partial<Record<NotificationKind, string>> = { ...file.notifications?.templates };
+    for (const kind of NOTIFICATION_KINDS) {
+        const template = text(`NOTIFY_TEMPLATE_${kind.toUpperCase()}`);
+        if (template) {
+            templates[kind] = template;
+        }
+    }
+
+    const raw: RawConfig = {
+        logLevel: text('LOG_LEVEL') ?? file.logLevel ?? 'info',
+        logPayloads: flag('LOG_PAYLOADS') ?? file.logPayloads ?? false,
+        proxyUrl: text('http_proxy') ?? text('https_proxy') ?? file.proxyUrl,
+        http: {
+            port: integer('WEBHOOK_PORT') ?? file.http?.port ?? 3000
+        },
+        telegram: {
+            token: text('TELEGRAM_BOT_TOKEN') ?? file.telegram?.token,
+            webhook: webhookUrl ? {
+                url: webhookUrl,
+                path: text('TELEGRAM_WEBHOOK_PATH') ?? file.telegram?.webhook?.path ?? '/webhook/telegram',
+                secretToken: text('TELEGRAM_WEBHOOK_SECRET') ?? file.telegram?.webhook?.secretToken
+            } : undefined,
+            commandsEnabled: flag('BOT_COMMANDS_ENABLED') ?? file.telegram?.commandsEnabled ?? true
+        },
+        intercom: {
+            accessToken: text('INTERCOM_ACCESS_TOKEN') ?? file.intercom?.accessToken,
+            clientSecret: text('INTERCOM_CLIENT_SECRET') ?? file.intercom?.clientSecret,
+            adminId: text('INTERCOM_ADMIN_ID') ?? file.intercom?.adminId
+        },
+        storage: {
+            backend: text('STORAGE_BACKEND') ?? file.storage?.backend ?? 'redis',
+            redisUrl: text('REDIS_URL') ?? file.storage?.redisUrl ?? 'redis://localhost:6379'
+        },
+        adminApi: {
+            token: text('ADMIN_API_TOKEN') ?? file.adminApi?.token
+        },
+        closedConversationPolicy: text('CLOSED_CONVERSATION_POLICY') ?? file.closedConversationPolicy ?? 'reopen',
+        forwardingMode: text('FORWARDING_MODE') ?? file.forwardingMode ?? 'all',
+        forwardingKeywords: text('FORWARDING_KEYWORDS')?.split(',').map(keyword => keyword.trim()).filter(Boolean)
+            ?? file.forwardingKeywords ?? [],
+        contextMessages: integer('CONTEXT_MESSAGES') ?? file.contextMessages ?? 0,
+        groupApproval: {
+            required: flag('GROUP_APPROVAL_REQUIRED') ?? file.groupApproval?.required ?? true,
+            allowedGroups: text('ALLOWED_GROUPS')?.split(',').map(groupId => groupId.trim()).filter(Boolean)
+                ?? file.groupApproval?.allowedGroups ?? []
+        },
+        shutdownTimeoutMs: integer('SHUTDOWN_TIMEOUT_MS') ?? file.shutdownTimeoutMs ?? 10000,
+        retry: {
+            intervalMs: integer('RETRY_INTERVAL_MS') ?? file.retry?.intervalMs,
+            maxAttempts: integer('RETRY_MAX_ATTEMPTS') ?? file.retry?.maxAttempts,
+            baseDelayMs: integer('RETRY_BASE_DELAY_MS') ?? file.retry?.baseDelayMs,
+            maxDelayMs: integer('RETRY_MAX_DELAY_MS') ?? file.retry?.maxDelayMs
+        },
+        notifications: {
+            // NOTIFY_EVENTS=assigned,closed enables only those notifications, NOTIFY_EVENTS= disables all
+            enabled: env.NOTIFY_EVENTS !== undefined
+                ? env.NOTIFY_EVENTS.split(',').map(kind => kind.trim()).filter(Boolean)
+                : file.notifications?.enabled,
+            templates
+        },
+        groups: file.groups ?? {}
+    };
+
+    const required: Array<[unknown, string]> = [
+        [raw.telegram.token, 'TELEGRAM_BOT_TOKEN'],
+        [raw.intercom.accessToken, 'INTERCOM_ACCESS_TOKEN'],
+        [raw.intercom.clientSecret, 'INTERCOM_CLIENT_SECRET'],
+        [raw.intercom.adminId, 'INTERCOM_ADMIN_ID']
+    ];
+    for (const [value, name] of required) {
+        if (value === undefined) {
+            problems.push(`${name} is required`);
+        }
+    }
+    if (raw.telegram.webhook && raw.telegram.webhook.secretToken === undefined) {
+        problems.push('TELEGRAM_WEBHOOK_SECRET is required in webhook mode');
+    }
+    // Keyword mode without keywords would silently forward nothing
+    if (raw.forwardingMode === 'keyword' && raw.forwardingKeywords.length === 0) {
+        problems.push('FORWARDING_KEYWORDS is required when FORWARDING_MODE is keyword');
+    }
+    for (const [groupId, group] of Object.entries<RawConfig>(raw.groups)) {
+        const mode = group.forwardingMode ?? raw.forwardingMode;
+        const keywords = group.forwardingKeywords ?? raw.forwardingKeywords;
+        if (mode === 'keyword' && keywords.length === 0) {
+            problems.push(`groups.${groupId}: forwardingKeywords is required in keyword mode`);
+        }
+    }
+
+    // Drop unset values so the schema only reports settings that were actually given
+    const configured = JSON.parse(JSON.stringify(raw));
+    problems.push(...validateSchema(configured, CONFIG_SCHEMA, 'config').map(withEnvName));
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return configured as ServiceConfig;
+}
+
+/**
+ * The configuration with secrets masked, safe to log.
+ */
+export function describeConfig(config: ServiceConfig): Record<string, unknown> {
+    const mask = (value?: string) => value ? '***' : undefined;
+    return {
+        ...config,
+        proxyUrl: config.proxyUrl ? config.proxyUrl.replace(/\/\/[^@/]*@/, '//***@') : undefined,
+        telegram: {
+            ...config.telegram,
+            token: mask(config.telegram.token),
+            webhook: config.telegram.webhook && { ...config.telegram.webhook, secretToken: mask(config.telegram.webhook.secretToken) }
+        },
+        intercom: {
+            ...config.intercom,
+            accessToken: mask(config.intercom.accessToken),
+            clientSecret: mask(config.intercom.clientSecret)
+        },
+        storage: {
+            ...config.storage,
+            redisUrl: config.storage.redisUrl.replace(/\/\/[^@/]*@/, '//***@')
+        },
+        adminApi: { token: mask(config.adminApi.token) }
+    };
+}
@@ -2,62 +2,138 @@ import dotenv from 'dotenv';
 import { TelegramService } from './services/telegram.service';
 import { IntercomService } from './services/intercom.service';
 import { RedisService } from './services/redis.service';
+import { MemoryStorageService } from './services/memory-storage.service';
+import { BridgeStorage } from './services/storage';
 import { BridgeService } from './services/bridge.service';
+import { RetryService } from './services/retry.service';
+import { NotificationService } from './services/notification.service';
+import { CommandService } from './services/command.service';
+import { GroupAccessService } from './services/group-access.service';
+import { HttpService } from './services/http.service';
+import { AdminApiService } from './services/admin-api.service';
+import { HealthService } from './services/health.service';
+import { ConfigError, describeConfig, loadConfig } from './config';
+import { ServiceConfig } from './types';
+import { logger } from './utils/logger';
 
 // Load environment variables
 dotenv.config();
 
-const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
-const INTERCOM_ACCESS_TOKEN = process.env.INTERCOM_ACCESS_TOKEN;
-const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
-
-// Validate required environment variables
-if (!TELEGRAM_BOT_TOKEN || !INTERCOM_ACCESS_TOKEN) {
-    console.error('Missing required environment variables:');
-    if (!TELEGRAM_BOT_TOKEN) console.error('- TELEGRAM_BOT_TOKEN');
-    if (!INTERCOM_ACCESS_TOKEN) console.error('- INTERCOM_ACCESS_TOKEN');
-    process.exit(1);
+let config: ServiceConfig;
+try {
+    config = loadConfig();
+} catch (error) {
+    if (error instanceof ConfigError) {
+        logger.error('Invalid configuration', { problems: error.problems });
+        process.exit(1);
+    }
+    throw error;
 }
+logger.configure({ level: config.logLevel, logPayloads: config.logPayloads });
 
-// After validation, we know these values are defined
-const telegramToken: string = TELEGRAM_BOT_TOKEN;
-const intercomToken: string = INTERCOM_ACCESS_TOKEN;
-
-async function main() {
+async function main(config: ServiceConfig) {
     try {
-        console.log('Initializing services...');
+        logger.info('Initializing services...', { config: describeConfig(config) });
 
         // Initialize services
-        const telegramService = new TelegramService(telegramToken);
-        const redisService = new RedisService(REDIS_URL);
-        const intercomService = new IntercomService(intercomToken, redisService);
+        const httpService = new HttpService(config.http.port);
+        const telegramService = new TelegramService(config.telegram.token, httpService, {
+            webhook: config.telegram.webhook,
+            proxyUrl: config.proxyUrl,
+            commandsEnabled: config.telegram.commandsEnabled
+        });
+        // The in-memory backend keeps state per process, only use it for a single instance
+        const storage: BridgeStorage = config.storage.backend === 'memory'
+            ? new MemoryStorageService()
+            : new RedisService(config.storage.redisUrl);
+        const intercomService = new IntercomService(
+            config.intercom.accessToken,
+            config.intercom.clientSecret,
+            storage,
+            httpService,
+            config.intercom.adminId
+        );
+        const retryService = new RetryService(storage, config.retry);
+        const outboundRetryService = new RetryService(storage, config.retry, 'intercom_to_telegram');
+
+        const notificationService = new NotificationService(telegramService, storage, {
+            enabled: config.notifications.enabled,
+            templates: config.notifications.templates,
+            groups: config.groups,
+            closedConversationPolicy: config.closedConversationPolicy
+        });
+
+        // Holds groups the bot is added to until they are approved
+        const groupAccessService = new GroupAccessService(telegramService, storage, config.groupApproval);
+
+        if (config.telegram.commandsEnabled) {
+            // Handles bot commands sent by group administrators
+            new CommandService(telegramService, intercomService, storage, groupAccessService);
+        }
+
+        // Probes and metrics for the orchestrator and Prometheus
+        new HealthService(httpService, telegramService, intercomService, storage);
+
+        if (config.adminApi.token) {
+            const retryServices = { telegram_to_intercom: retryService, intercom_to_telegram: outboundRetryService };
+            new AdminApiService(httpService, intercomService, storage, retryServices, groupAccessService, config.adminApi.token);
+        } else {
+            logger.info('Admin API disabled, set ADMIN_API_TOKEN to enable it');
+        }
 
         // Initialize bridge service
         const bridgeService = new BridgeService(
             telegramService,
             intercomService,
-            redisService
+            storage,
+            retryService,
+            outboundRetryService,
+            notificationService,
+            groupAccessService,
+            {
+                closedConversationPolicy: config.closedConversationPolicy,
+                forwardingMode: config.forwardingMode,
+                forwardingKeywords: config.forwardingKeywords,
+                contextMessages: config.contextMessages,
+                groups: config.groups,
+                shutdownTimeoutMs: config.shutdownTimeoutMs
+            }
         );
 
         // Start the bridge service
         await bridgeService.start();
+        await httpService.start();
 
         // Handle graceful shutdown
-        const shutdown = async () => {
-            console.log('\nShutting down...');
-            await bridgeService.stop();
-            process.exit(0);
+        let shuttingDown = false;
+        const shutdown = async (signal: NodeJS.Signals) => {
+            if (shuttingDown) {
+                return;
+            }
+            shuttingDown = true;
+            logger.info('Shutting down...', { signal });
+
+            try {
+                // No new webhooks are accepted while the bridge drains, the ones being answered
+                // finish first so their messages are drained with the rest
+                await httpService.stop();
+                await bridgeService.stop();
+                process.exit(0);
+            } catch (error) {
+                logger.error('Error during shutdown', { error });
+                process.exit(1);
+            }
         };
 
         process.on('SIGINT', shutdown);
         process.on('SIGTERM', shutdown);
 
-        console.log('Bridge service is running...');
-        console.log('Listening for messages from Telegram channels and Intercom conversations');
+        logger.info('Bridge service is running...');
+        logger.info('Listening for messages from Telegram channels and Intercom conversations');
     } catch (error) {
-        console.error('Failed to start the bridge service:', error);
+        logger.error('Failed to start the bridge service', { error });
         process.exit(1);
     }
 }
 
-main(); 
\ No newline at end of file
+main(config);
@@ -0,0 +1,273 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { AdminApiService } from './admin-api.service';
+import { HttpService } from './http.service';
+import { IntercomService } from './intercom.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { RetryService } from './retry.service';
+import { GroupAccessService } from './group-access.service';
+import { MessageDirection, QueuedMessage } from '../types';
+import { GROUP_ID, telegramMessage } from '../test-fixtures';
+
+const API_TOKEN = 'test-admin-token';
+
+interface FakeIntercom {
+    getConversation: jest.Mock;
+    isConversationNotFound: jest.Mock;
+    linkConversationToGroup: jest.Mock;
+}
+
+function deadLetter(groupId: string, id: string, direction: MessageDirection = 'telegram_to_intercom'): QueuedMessage {
+    const message = telegramMessage({ id, groupId });
+    return { groupId, direction, message, attempts: 8, queuedAt: Date.now(), nextAttemptAt: Date.now(), lastError: 'Bad Gateway' };
+}
+
+describe('AdminApiService', () => {
+    let storage: MemoryStorageService;
+    let intercom: FakeIntercom;
+    let retryServices: Record<MessageDirection, RetryService>;
+    let delivered: jest.Mock;
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        storage = new MemoryStorageService();
+        await storage.connect();
+        delivered = jest.fn(async () => undefined);
+        retryServices = {
+            telegram_to_intercom: new RetryService(storage, { intervalMs: 60000 }),
+            intercom_to_telegram: new RetryService(storage, { intervalMs: 60000 }, 'intercom_to_telegram')
+        };
+        Object.values(retryServices).forEach(retry => retry.start(delivered));
+
+        intercom = {
+            getConversation: jest.fn(async (id: string) => ({ id, state: 'open', custom_attributes: {} })),
+            isConversationNotFound: jest.fn((error: Error) => error.message === 'Not Found'),
+            linkConversationToGroup: jest.fn(async () => undefined)
+        };
+
+        const http = new HttpService();
+        new AdminApiService(
+            http,
+            intercom as unknown as IntercomService,
+            storage,
+            retryServices,
+            {} as GroupAccessService,
+            API_TOKEN
+        );
+        server = await new Promise<Server>(resolve => {
+            const listening = http.app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`;
+    });
+
+    afterEach(async () => {
+        await Promise.all(Object.values(retryServices).map(retry => retry.stop()));
+        await new Promise(resolve => server.close(resolve));
+        await storage.disconnect();
+    });
+
+    function request(method: string, path: string, body?: unknown, token: string = API_TOKEN): Promise<Response> {
+        return fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                authorization: `Bearer ${token}`,
+                'content-type': 'application/json'
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+    }
+
+    it('rejects requests without the API token', async () => {
+        const wrongToken = await request('GET', '/mappings', undefined, 'not-the-token');
+        const noToken = await fetch(`${baseUrl}/mappings`);
+
+        expect(wrongToken.status).toBe(401);
+        expect(noToken.status).toBe(401);
+        expect(await noToken.json()).toEqual({ error: 'Unauthorized' });
+    });
+
+    describe('mappings', () => {
+        it('creates, reads, overrides and deletes a mapping', async () => {
+            const created = await request('PUT', `/mappings/${GROUP_ID}`, { intercomConversationId: '1001' });
+            expect(created.status).toBe(201);
+            expect(await created.json()).toEqual({
+                telegramGroupId: GROUP_ID,
+                intercomConversationId: '1001',
+                conversationState: 'open'
+            });
+
+            const overridden = await request('PUT', `/mappings/${GROUP_ID}`, { intercomConversationId: '1002' });
+            expect(overridden.status).toBe(200);
+
+            const read = await request('GET', `/mappings/${GROUP_ID}`);
+            const mapping = await read.json();
+            expect(mapping.intercomConversationId).toBe('1002');
+            expect(mapping.history).toEqual([expect.objectContaining({ conversationId: '1001', reason: 'overridden via admin API' })]);
+
+            expect((await request('DELETE', `/mappings/${GROUP_ID}`)).status).toBe(204);
+            expect((await request('GET', `/mappings/${GROUP_ID}`)).status).toBe(404);
+            expect(await storage.getTelegramGroup('1002')).toBeNull();
+        });
+
+        it('pages through the mappings', async () => {
+            for (const groupId of ['-1001', '-1002', '-1003']) {
+                await storage.saveGroupMapping({ telegramGroupId: groupId, intercomConversationId: groupId.slice(1) });
+            }
+
+            const groupIds: string[] = [];
+            let cursor = 0;
+            do {
+                const page = await (await request('GET', `/mappings?cursor=${cursor}&limit=1`)).json();
+                groupIds.push(...page.mappings.map((mapping: { telegramGroupId: string }) => mapping.telegramGroupId));
+                cursor = page.nextCursor;
+            } while (cursor !== 0);
+
+            expect(groupIds.sort()).toEqual(['-1001', '-1002', '-1003']);
+        });
+
+        it('rejects invalid bodies and queries', async () => {
+            const badBody = await request('PUT', `/mappings/${GROUP_ID}`, { intercomConversationId: 'abc', extra: true });
+            const badQuery = await request('GET', '/mappings?limit=0');
+
+            expect(badBody.status).toBe(400);
+            expect((await badBody.json()).details).toHaveLength(2);
+            expect(badQuery.status).toBe(400);
+        });
+
+        it('answers 404 for unknown mappings and conversations', async () => {
+            expect((await request('GET', `/mappings/${GROUP_ID}`)).status).toBe(404);
+            expect((await request('DELETE', `/mappings/${GROUP_ID}`)).status).toBe(404);
+            expect((await request('GET', '/conversations/1001')).status).toBe(404);
+        });
+    });
+
+    describe('relink', () => {
+        beforeEach(async () => {
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+        });
+
+        it('moves a group to an existing conversation', async () => {
+            const response = await request('POST', `/mappings/${GROUP_ID}/relink`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toMatchObject({ telegramGroupId: GROUP_ID, intercomConversationId: '2002' });
+            expect(intercom.linkConversationToGroup).toHaveBeenCalledWith('2002', expect.objectContaining({ groupId: GROUP_ID }));
+            expect(await storage.getTelegramGroup('2002')).toBe(GROUP_ID);
+            expect(await storage.getTelegramGroup('1001')).toBeNull();
+        });
+
+        it('refuses a conversation linked to another group', async () => {
+            await storage.saveGroupMapping({ telegramGroupId: '-100300', intercomConversationId: '2002' });
+
+            const response = await request('POST', `/mappings/${GROUP_ID}/relink`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(409);
+            expect(await response.json()).toEqual({ error: 'Conversation is linked to group -100300' });
+            expect(intercom.linkConversationToGroup).not.toHaveBeenCalled();
+            expect((await storage.getGroupMapping(GROUP_ID))?.intercomConversationId).toBe('1001');
+        });
+
+        it('refuses to map a group to a conversation linked to another group', async () => {
+            await storage.saveGroupMapping({ telegramGroupId: '-100300', intercomConversationId: '2002' });
+
+            const response = await request('PUT', `/mappings/${GROUP_ID}`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(409);
+            expect(await response.json()).toEqual({ error: 'Conversation is linked to group -100300' });
+            expect((await storage.getGroupMapping(GROUP_ID))?.intercomConversationId).toBe('1001');
+            expect(await storage.getTelegramGroup('2002')).toBe('-100300');
+        });
+
+        it('refuses to map a group while its conversation is being updated', async () => {
+            await storage.acquireLock(GROUP_ID, 'bridge-worker');
+
+            const response = await request('PUT', `/mappings/${GROUP_ID}`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(409);
+            expect((await storage.getGroupMapping(GROUP_ID))?.intercomConversationId).toBe('1001');
+        });
+
+        it('refuses while the group\'s conversation is being updated', async () => {
+            await storage.acquireLock(GROUP_ID, 'bridge-worker');
+
+            const response = await request('POST', `/mappings/${GROUP_ID}/relink`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(409);
+            expect(intercom.linkConversationToGroup).not.toHaveBeenCalled();
+        });
+
+        it('answers 404 for a conversation Intercom does not know', async () => {
+            intercom.getConversation.mockRejectedValue(new Error('Not Found'));
+
+            const response = await request('POST', `/mappings/${GROUP_ID}/relink`, { intercomConversationId: '2002' });
+
+            expect(response.status).toBe(404);
+            expect((await storage.getGroupMapping(GROUP_ID))?.intercomConversationId).toBe('1001');
+        });
+    });
+
+    describe('dead letters', () => {
+        beforeEach(async () => {
+            await storage.moveToDeadLetter(deadLetter(GROUP_ID, '1'));
+            await storage.moveToDeadLetter(deadLetter('-100300', '2'));
+            await storage.moveToDeadLetter(deadLetter(GROUP_ID, '3', 'intercom_to_telegram'));
+        });
+
+        it('lists the dead letters of a direction', async () => {
+            const response = await request('GET', '/dead-letters');
+            const { deadLetters } = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(deadLetters.map((entry: QueuedMessage) => entry.message.id)).toEqual(['2', '1']);
+        });
+
+        it('lists the dead letters of one group and direction', async () => {
+            const response = await request('GET', `/dead-letters/${GROUP_ID}?direction=intercom_to_telegram`);
+            const { deadLetters } = await response.json();
+
+            expect(deadLetters).toHaveLength(1);
+            expect(deadLetters[0]).toMatchObject({ groupId: GROUP_ID, lastError: 'Bad Gateway', message: { id: '3' } });
+        });
+
+        it('replays the dead letters of a group and delivers them again', async () => {
+            const response = await request('POST', `/dead-letters/${GROUP_ID}/replay`);
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ replayed: 1 });
+            expect(delivered).toHaveBeenCalledTimes(1);
+            expect(delivered.mock.calls[0][1]).toMatchObject({ id: '1' });
+            expect((await storage.getDeadLetters()).map(entry => entry.message.id)).toEqual(['2']);
+            expect(await storage.getDeadLetterCount('intercom_to_telegram')).toBe(1);
+        });
+
+        it('rejects an unknown direction', async () => {
+            const response = await request('POST', `/dead-letters/${GROUP_ID}/replay?direction=sideways`);
+
+            expect(response.status).toBe(400);
+            expect(delivered).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('group settings', () => {
+        it('switches a notification off and keeps the other settings', async () => {
+            await storage.updateGroupSettings(GROUP_ID, { notifications: { assigned: true } });
+
+            const response = await request('PATCH', `/groups/${GROUP_ID}/settings`, { notifications: { closed: false } });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ notifications: { assigned: true, closed: false } });
+            expect(await (await request('GET', `/groups/${GROUP_ID}/settings`)).json())
+                .toEqual({ notifications: { assigned: true, closed: false } });
+        });
+
+        it('rejects unknown notifications and non-boolean switches', async () => {
+            const unknown = await request('PATCH', `/groups/${GROUP_ID}/settings`, { notifications: { typing: false } });
+            const notBoolean = await request('PATCH', `/groups/${GROUP_ID}/settings`, { notifications: { closed: 'no' } });
+
+            expect(unknown.status).toBe(400);
+            expect(notBoolean.status).toBe(400);
+            expect(await storage.getGroupSettings(GROUP_ID)).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,551 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import crypto from 'crypto';
+import { HttpService } from './http.service';
+import { IntercomConversation, IntercomService } from './intercom.service';
+import { BridgeStorage } from './storage';
+import { RetryService } from './retry.service';
+import { GROUP_ACCESS_STATUSES, GroupAccessService } from './group-access.service';
+import { NOTIFICATION_KINDS } from './notification.service';
+import { ConversationState, GroupAccessStatus, GroupMapping, MessageDirection } from '../types';
+import { JsonSchema, validateSchema } from '../utils/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ component: 'admin-api' });
+
+const CONVERSATION_STATES: ConversationState[] = ['open', 'closed', 'snoozed', 'deleted'];
+const DIRECTIONS: MessageDirection[] = ['telegram_to_intercom', 'intercom_to_telegram'];
+
+const groupMappingSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        telegramGroupId: { type: 'string' },
+        intercomConversationId: { type: 'string' },
+        lastMessageId: { type: 'string', description: 'Latest Telegram message forwarded to the conversation' },
+        conversationState: { type: 'string', enum: CONVERSATION_STATES },
+        inactiveSince: { type: 'integer', description: 'Set while the bot is not a member of the group, in milliseconds' }
+    },
+    required: ['telegramGroupId', 'intercomConversationId']
+};
+
+const groupAccessSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        telegramGroupId: { type: 'string' },
+        groupName: { type: 'string' },
+        status: { type: 'string', enum: GROUP_ACCESS_STATUSES },
+        addedBy: {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                username: { type: 'string' }
+            },
+            required: ['id', 'name']
+        },
+        requestedAt: { type: 'integer' },
+        decidedAt: { type: 'integer' },
+        removedAt: { type: 'integer', description: 'Set while the bot is not a member of the group' }
+    },
+    required: ['telegramGroupId', 'groupName', 'status', 'requestedAt']
+};
+
+const groupSettingsSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        notifications: {
+            type: 'object',
+            description: 'Status notifications switched on or off for the group, unset ones follow NOTIFY_EVENTS',
+            properties: Object.fromEntries(NOTIFICATION_KINDS.map(kind => [kind, { type: 'boolean' }])),
+            additionalProperties: false
+        }
+    },
+    additionalProperties: false
+};
+
+/**
+ * Request and response bodies of the admin API, served at GET /admin/schemas.
+ */
+export const ADMIN_API_SCHEMAS: Record<string, JsonSchema> = {
+    PageQuery: {
+        type: 'object',
+        properties: {
+            cursor: { type: 'integer', minimum: 0, description: 'nextCursor of the previous page, 0 for the first page' },
+            limit: { type: 'integer', minimum: 1, maximum: 500, description: 'Approximate page size' }
+        },
+        additionalProperties: false
+    },
+    QueueQuery: {
+        type: 'object',
+        properties: {
+            direction: { type: 'string', enum: DIRECTIONS, description: 'Defaults to telegram_to_intercom' }
+        },
+        additionalProperties: false
+    },
+    GroupQuery: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', enum: GROUP_ACCESS_STATUSES, description: 'All groups when unset' }
+        },
+        additionalProperties: false
+    },
+    GroupMapping: groupMappingSchema,
+    GroupMappingPage: {
+        type: 'object',
+        properties: {
+            mappings: { type: 'array', items: groupMappingSchema },
+            nextCursor: { type: 'integer', description: '0 once all mappings were listed' }
+        },
+        required: ['mappings', 'nextCursor']
+    },
+    PutGroupMapping: {
+        type: 'object',
+        description: 'Creates or overrides a mapping as is, without checking the conversation in Intercom',
+        properties: {
+            intercomConversationId: { type: 'string', pattern: '^[0-9]+$' },
+            lastMessageId: { type: 'string', pattern: '^[0-9]+$' },
+            conversationState: { type: 'string', enum: CONVERSATION_STATES }
+        },
+        required: ['intercomConversationId'],
+        additionalProperties: false
+    },
+    RelinkGroup: {
+        type: 'object',
+        description: 'Moves a group to an existing Intercom conversation and routes its replies to the group',
+        properties: {
+            intercomConversationId: { type: 'string', pattern: '^[0-9]+$' },
+            groupName: { type: 'string', minLength: 1, maxLength: 255 }
+        },
+        required: ['intercomConversationId'],
+        additionalProperties: false
+    },
+    GroupAccess: groupAccessSchema,
+    GroupAccessList: {
+        type: 'object',
+        properties: {
+            groups: { type: 'array', items: groupAccessSchema }
+        },
+        required: ['groups']
+    },
+    GroupSettings: groupSettingsSchema,
+    ConversationGroup: {
+        type: 'object',
+        properties: {
+            intercomConversationId: { type: 'string' },
+            telegramGroupId: { type: 'string' }
+        },
+        required: ['intercomConversationId', 'telegramGroupId']
+    },
+    QueueDepth: {
+        type: 'object',
+        properties: {
+            groupId: { type: 'string' },
+            direction: { type: 'string', enum: DIRECTIONS },
+            length: { type: 'integer', minimum: 0 }
+        },
+        required: ['groupId', 'direction', 'length']
+    },
+    DeadLetter: {
+        type: 'object',
+        description: 'A message that could not be delivered, with its last error',
+        properties: {
+            groupId: { type: 'string' },
+            direction: { type: 'string', enum: DIRECTIONS },
+            message: { type: 'object', description: 'The message as it was queued' },
+            attempts: { type: 'integer', minimum: 0 },
+            queuedAt: { type: 'integer' },
+            lastError: { type: 'string' },
+            deadLetteredAt: { type: 'integer' }
+        },
+        required: ['groupId', 'message', 'attempts', 'queuedAt']
+    },
+    ReplayedDeadLetters: {
+        type: 'object',
+        properties: {
+            replayed: { type: 'integer', minimum: 0, description: 'Messages moved back to the queue' }
+        },
+        required: ['replayed']
+    },
+    ContactMapping: {
+        type: 'object',
+        properties: {
+            telegramUserId: { type: 'string' },
+            intercomContactId: { type: 'string' }
+        },
+        required: ['telegramUserId', 'intercomContactId']
+    },
+    Error: {
+        type: 'object',
+        properties: {
+            error: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['error']
+    }
+};
+
+type RouteHandler = (req: Request, res: Response) => Promise<void>;
+
+/**
+ * REST endpoints under /admin for inspecting and repairing the bridge's state.
+ * Every request needs an "Authorization: Bearer <token>" header.
+ */
+export class AdminApiService {
+    private readonly DEFAULT_PAGE_SIZE = 50;
+
+    constructor(
+        private httpService: HttpService,
+        private intercomService: IntercomService,
+        private storage: BridgeStorage,
+        private retryServices: Record<MessageDirection, RetryService>,
+        private groupAccessService: GroupAccessService,
+        private apiToken: string
+    ) {
+        this.httpService.app.use('/admin', this.createRouter());
+        log.info('Admin API enabled at /admin');
+    }
+
+    private createRouter(): Router {
+        const router = Router();
+        router.use(this.authenticate.bind(this));
+
+        router.get('/schemas', this.route(async (_req, res) => {
+            res.json(ADMIN_API_SCHEMAS);
+        }));
+
+        router.get('/mappings', this.route(async (req, res) => {
+            const page = this.parsePageQuery(req, res);
+            if (page) {
+                res.json(await this.storage.listGroupMappings(page.cursor, page.limit));
+            }
+        }));
+
+        router.get('/mappings/:groupId', this.route(async (req, res) => {
+            const mapping = await this.storage.getGroupMapping(req.params.groupId);
+            if (!mapping) {
+                this.sendError(res, 404, 'Mapping not found');
+                return;
+            }
+            res.json({
+                ...mapping,
+                history: await this.storage.getConversationHistory(req.params.groupId)
+            });
+        }));
+
+        router.put('/mappings/:groupId', this.route(async (req, res) => {
+            if (!this.validateBody(req, res, 'PutGroupMapping')) {
+                return;
+            }
+
+            const { groupId } = req.params;
+            const linkedGroup = await this.storage.getTelegramGroup(req.body.intercomConversationId);
+            if (linkedGroup && linkedGroup !== groupId) {
+                this.sendError(res, 409, `Conversation is linked to group ${linkedGroup}`);
+                return;
+            }
+
+            await this.withGroupLock(groupId, res, async () => {
+                const existing = await this.storage.getGroupMapping(groupId);
+                if (existing && existing.intercomConversationId !== req.body.intercomConversationId) {
+                    await this.storage.archiveGroupMapping(groupId, 'overridden via admin API');
+                }
+
+                const mapping: GroupMapping = {
+                    telegramGroupId: groupId,
+                    intercomConversationId: req.body.intercomConversationId,
+                    lastMessageId: req.body.lastMessageId,
+                    conversationState: req.body.conversationState || 'open'
+                };
+                await this.storage.saveGroupMapping(mapping);
+                log.info('Group mapping saved via admin API', {
+                    groupId: mapping.telegramGroupId,
+                    conversationId: mapping.intercomConversationId
+                });
+                res.status(existing ? 200 : 201).json(mapping);
+            });
+        }));
+
+        router.delete('/mappings/:groupId', this.route(async (req, res) => {
+            const mapping = await this.storage.getGroupMapping(req.params.groupId);
+            if (!mapping) {
+                this.sendError(res, 404, 'Mapping not found');
+                return;
+            }
+            await this.storage.archiveGroupMapping(req.params.groupId, 'deleted via admin API');
+            res.status(204).end();
+        }));
+
+        router.post('/mappings/:groupId/relink', this.route(async (req, res) => {
+            if (!this.validateBody(req, res, 'RelinkGroup')) {
+                return;
+            }
+            await this.relinkGroup(req.params.groupId, req.body.intercomConversationId, req.body.groupName, res);
+        }));
+
+        router.get('/conversations/:conversationId', this.route(async (req, res) => {
+            const telegramGroupId = await this.storage.getTelegramGroup(req.params.conversationId);
+            if (!telegramGroupId) {
+                this.sendError(res, 404, 'No group is mapped to the conversation');
+                return;
+            }
+            res.json({ intercomConversationId: req.params.conversationId, telegramGroupId });
+        }));
+
+        router.get('/groups', this.route(async (req, res) => {
+            const errors = validateSchema(req.query, ADMIN_API_SCHEMAS.GroupQuery, '$query');
+            if (errors.length > 0) {
+                this.sendError(res, 400, 'Invalid query', errors);
+                return;
+            }
+            const groups = await this.groupAccessService.listGroups(req.query.status as GroupAccessStatus | undefined);
+            res.json({ groups });
+        }));
+
+        router.post('/groups/:groupId/approve', this.route(async (req, res) => {
+            const access = await this.groupAccessService.approve(req.params.groupId);
+            if (!access) {
+                this.sendError(res, 404, 'The bot was never added to the group');
+                return;
+            }
+            res.json(access);
+        }));
+
+        router.post('/groups/:groupId/reject', this.route(async (req, res) => {
+            const access = await this.groupAccessService.reject(req.params.groupId);
+            if (!access) {
+                this.sendError(res, 404, 'The bot was never added to the group');
+                return;
+            }
+            res.json(access);
+        }));
+
+        router.get('/groups/:groupId/settings', this.route(async (req, res) => {
+            res.json(await this.storage.getGroupSettings(req.params.groupId));
+        }));
+
+        router.patch('/groups/:groupId/settings', this.route(async (req, res) => {
+            if (!this.validateBody(req, res, 'GroupSettings')) {
+                return;
+            }
+            const settings = await this.storage.updateGroupSettings(req.params.groupId, req.body);
+            log.info('Group settings updated via admin API', {
+                groupId: req.params.groupId,
+                notifications: settings.notifications
+            });
+            res.json(settings);
+        }));
+
+        router.get('/queues', this.route(async (req, res) => {
+            const direction = this.parseQueueQuery(req, res);
+            if (!direction) {
+                return;
+            }
+            const groupIds = await this.storage.getQueuedGroups(direction);
+            const queues = await Promise.all(groupIds.map(async groupId => ({
+                groupId,
+                direction,
+                length: await this.storage.getQueueLength(groupId, direction)
+            })));
+            res.json({ queues });
+        }));
+
+        router.get('/queues/:groupId', this.route(async (req, res) => {
+            const direction = this.parseQueueQuery(req, res);
+            if (direction) {
+                res.json({
+                    groupId: req.params.groupId,
+                    direction,
+                    length: await this.storage.getQueueLength(req.params.groupId, direction)
+                });
+            }
+        }));
+
+        router.get('/dead-letters', this.route(async (req, res) => {
+            const direction = this.parseQueueQuery(req, res);
+            if (direction) {
+                res.json({ deadLetters: await this.retryServices[direction].getDeadLetters() });
+            }
+        }));
+
+        router.get('/dead-letters/:groupId', this.route(async (req, res) => {
+            const direction = this.parseQueueQuery(req, res);
+            if (direction) {
+                res.json({ deadLetters: await this.retryServices[direction].getDeadLetters(req.params.groupId) });
+            }
+        }));
+
+        router.post('/dead-letters/:groupId/replay', this.route(async (req, res) => {
+            const direction = this.parseQueueQuery(req, res);
+            if (!direction) {
+                return;
+            }
+            const replayed = await this.retryServices[direction].replayDeadLetters(req.params.groupId);
+            log.info('Dead letters replayed via admin API', {
+                groupId: req.params.groupId,
+                direction,
+                replayed
+            });
+            res.json({ replayed });
+        }));
+
+        router.get('/contacts', this.route(async (req, res) => {
+            const page = this.parsePageQuery(req, res);
+            if (page) {
+                res.json(await this.storage.listContactMappings(page.cursor, page.limit));
+            }
+        }));
+
+        router.get('/contacts/:telegramUserId', this.route(async (req, res) => {
+            const intercomContactId = await this.storage.getContactMapping(req.params.telegramUserId);
+            if (!intercomContactId) {
+                this.sendError(res, 404, 'Contact not cached');
+                return;
+            }
+            res.json({ telegramUserId: req.params.telegramUserId, intercomContactId });
+        }));
+
+        router.delete('/contacts/:telegramUserId', this.route(async (req, res) => {
+            await this.storage.invalidateContactMapping(req.params.telegramUserId);
+            res.status(204).end();
+        }));
+
+        router.delete('/contacts', this.route(async (_req, res) => {
+            res.json({ flushed: await this.storage.flushContactMappings() });
+        }));
+
+        return router;
+    }
+
+    private async relinkGroup(groupId: string, conversationId: string, groupName: string | undefined, res: Response): Promise<void> {
+        let conversation: IntercomConversation;
+        try {
+            conversation = await this.intercomService.getConversation(conversationId);
+        } catch (error) {
+            if (this.intercomService.isConversationNotFound(error)) {
+                this.sendError(res, 404, 'Conversation not found in Intercom');
+                return;
+            }
+            throw error;
+        }
+
+        const linkedGroup = await this.storage.getTelegramGroup(conversationId);
+        if (linkedGroup && linkedGroup !== groupId) {
+            this.sendError(res, 409, `Conversation is linked to group ${linkedGroup}`);
+            return;
+        }
+
+        await this.withGroupLock(groupId, res, async () => {
+            await this.storage.archiveGroupMapping(groupId, 'relinked via admin API');
+            await this.intercomService.linkConversationToGroup(conversationId, {
+                groupId,
+                groupName: groupName || conversation.custom_attributes?.telegram_group_name || `Telegram group ${groupId}`
+            });
+
+            const mapping: GroupMapping = {
+                telegramGroupId: groupId,
+                intercomConversationId: conversationId,
+                conversationState: (conversation.state as ConversationState) || 'open'
+            };
+            await this.storage.saveGroupMapping(mapping);
+            log.info('Group relinked via admin API', {
+                groupId: mapping.telegramGroupId,
+                conversationId: mapping.intercomConversationId
+            });
+            res.json(mapping);
+        });
+    }
+
+    /**
+     * Runs a mapping change under the group's lock, so it can't race a conversation being
+     * created for an incoming message. Answers 409 while another change holds the lock.
+     */
+    private async withGroupLock(groupId: string, res: Response, action: () => Promise<void>): Promise<void> {
+        const owner = crypto.randomUUID();
+        if (!await this.storage.acquireLock(groupId, owner)) {
+            this.sendError(res, 409, 'The group\'s conversation is being updated, try again later');
+            return;
+        }
+
+        try {
+            await action();
+        } finally {
+            await this.storage.releaseLock(groupId, owner);
+        }
+    }
+
+    private authenticate(req: Request, res: Response, next: NextFunction): void {
+        const [scheme, token] = (req.header('authorization') || '').split(' ');
+        if (scheme !== 'Bearer' || !token || !this.isValidToken(token)) {
+            log.warn('Rejected admin API request', {
+                method: req.method,
+                path: req.originalUrl,
+                ip: req.ip
+            });
+            this.sendError(res, 401, 'Unauthorized');
+            return;
+        }
+        next();
+    }
+
+    private isValidToken(token: string): boolean {
+        // Compare digests so the comparison takes the same time whatever the token's length
+        const expected = crypto.createHash('sha256').update(this.apiToken).digest();
+        const received = crypto.createHash('sha256').update(token).digest();
+        return crypto.timingSafeEqual(expected, received);
+    }
+
+    private parsePageQuery(req: Request, res: Response): { cursor: number; limit: number } | null {
+        const query: Record<string, number> = {};
+        for (const [name, value] of Object.entries(req.query)) {
+            query[name] = typeof value === 'string' && value !== '' ? Number(value) : NaN;
+        }
+
+        const errors = validateSchema(query, ADMIN_API_SCHEMAS.PageQuery, '$query');
+        if (errors.length > 0) {
+            this.sendError(res, 400, 'Invalid query', errors);
+            return null;
+        }
+        return {
+            cursor: query.cursor ?? 0,
+            limit: query.limit ?? this.DEFAULT_PAGE_SIZE
+        };
+    }
+
+    private parseQueueQuery(req: Request, res: Response): MessageDirection | null {
+        const errors = validateSchema(req.query, ADMIN_API_SCHEMAS.QueueQuery, '$query');
+        if (errors.length > 0) {
+            this.sendError(res, 400, 'Invalid query', errors);
+            return null;
+        }
+        return (req.query.direction as MessageDirection | undefined) || 'telegram_to_intercom';
+    }
+
+    private validateBody(req: Request, res: Response, schemaName: string): boolean {
+        const errors = validateSchema(req.body ?? {}, ADMIN_API_SCHEMAS[schemaName], '$body');
+        if (errors.length > 0) {
+            this.sendError(res, 400, 'Invalid request body', errors);
+            return false;
+        }
+        return true;
+    }
+
+    private route(handler: RouteHandler): RouteHandler {
+        return async (req, res) => {
+            try {
+                await handler(req, res);
+            } catch (error) {
+                log.error('Error handling admin API request', {
+                    method: req.method,
+                    path: req.originalUrl,
+                    error
+                });
+                if (!res.headersSent) {
+                    this.sendError(res, 500, 'Internal Server Error');
+                }
+            }
+        };
+    }
+
+    private sendError(res: Response, status: number, error: string, details?: string[]): void {
+        res.status(status).json(details ? { error, details } : { error });
+    }
+}
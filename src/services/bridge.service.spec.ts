@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events';
+import { BridgeOptions, BridgeService } from './bridge.service';
+import { TelegramService } from './telegram.service';
+import { IntercomService } from './intercom.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { RetryService } from './retry.service';
+import { NotificationService } from './notification.service';
+import { GroupAccessOptions, GroupAccessService } from './group-access.service';
+import { Message } from '../types';
+import { GROUP_ID, intercomMessage, telegramMessage } from '../test-fixtures';
+
+type Handler = (message: Message) => Promise<void>;
+
+interface FakeTelegram extends EventEmitter {
+    sendMessage: jest.Mock;
+    leaveChat: jest.Mock;
+    splitMessage: jest.Mock;
+    isGroupAdmin: jest.Mock;
+    stop: jest.Mock;
+}
+
+interface FakeIntercom extends EventEmitter {
+    sendMessage: jest.Mock;
+    createConversation: jest.Mock;
+    isConversationNotFound: jest.Mock;
+    addNote: jest.Mock;
+    findPrecedingCustomerPart: jest.Mock;
+    stop: jest.Mock;
+}
+
+function createBridge(
+    options: Partial<BridgeOptions> = {},
+    groupApproval: GroupAccessOptions = { required: false, allowedGroups: [] }
+): {
+    bridge: BridgeService;
+    storage: MemoryStorageService;
+    telegram: FakeTelegram;
+    intercom: FakeIntercom;
+    groupAccess: GroupAccessService;
+    fromTelegram: Handler;
+    fromIntercom: Handler;
+} {
+    const storage = new MemoryStorageService();
+    const telegram: FakeTelegram = Object.assign(new EventEmitter(), {
+        sendMessage: jest.fn(async () => '900'),
+        leaveChat: jest.fn(async () => undefined),
+        splitMessage: jest.fn((text: string) => [text]),
+        isGroupAdmin: jest.fn(async () => false),
+        stop: jest.fn(async () => undefined)
+    });
+    const intercom: FakeIntercom = Object.assign(new EventEmitter(), {
+        sendMessage: jest.fn(async () => 'part-1'),
+        createConversation: jest.fn(async () => '1001'),
+        isConversationNotFound: jest.fn(() => false),
+        addNote: jest.fn(async () => undefined),
+        findPrecedingCustomerPart: jest.fn(async () => undefined),
+        stop: jest.fn()
+    });
+    const retryService = {
+        drainGroup: jest.fn(async () => undefined),
+        stop: jest.fn(async () => undefined),
+        releaseLocks: jest.fn(async () => undefined)
+    };
+    const groupAccess = new GroupAccessService(telegram as unknown as TelegramService, storage, groupApproval);
+
+    const bridge = new BridgeService(
+        telegram as unknown as TelegramService,
+        intercom as unknown as IntercomService,
+        storage,
+        retryService as unknown as RetryService,
+        retryService as unknown as RetryService,
+        {} as NotificationService,
+        groupAccess,
+        options
+    );
+    return {
+        bridge,
+        storage,
+        telegram,
+        intercom,
+        groupAccess,
+        // The handlers return the tracked promise, so tests can wait for them
+        fromTelegram: telegram.listeners('message')[0] as Handler,
+        fromIntercom: intercom.listeners('message')[0] as Handler
+    };
+}
+
+describe('BridgeService', () => {
+    describe('duplicate Telegram updates', () => {
+        it('forwards a message delivered twice in parallel only once', async () => {
+            const { storage, intercom, fromTelegram } = createBridge();
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+            const message = telegramMessage();
+
+            await Promise.all([fromTelegram({ ...message }), fromTelegram({ ...message })]);
+
+            expect(intercom.sendMessage).toHaveBeenCalledTimes(1);
+        });
+
+        it('creates one conversation when the first message of a group arrives twice in parallel', async () => {
+            const { intercom, fromTelegram } = createBridge();
+            const message = telegramMessage();
+
+            await Promise.all([fromTelegram({ ...message }), fromTelegram({ ...message })]);
+
+            expect(intercom.createConversation).toHaveBeenCalledTimes(1);
+            expect(intercom.sendMessage).not.toHaveBeenCalled();
+        });
+
+        it('forwards successive edits of a message but drops a repeated edit', async () => {
+            const { storage, intercom, fromTelegram } = createBridge();
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+            const firstEdit = telegramMessage({ event: 'edit', editedAt: 1000, text: 'First correction' });
+            const secondEdit = telegramMessage({ event: 'edit', editedAt: 2000, text: 'Second correction' });
+
+            await Promise.all([fromTelegram({ ...firstEdit }), fromTelegram({ ...firstEdit })]);
+            await fromTelegram(secondEdit);
+
+            expect(intercom.sendMessage).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('admin reply threading', () => {
+        async function linkTelegramMessage(storage: MemoryStorageService, telegramMessageId: string, partId: string): Promise<void> {
+            await storage.saveMessageLink({
+                telegramChatId: GROUP_ID,
+                telegramMessageId,
+                intercomConversationId: '1001',
+                intercomPartId: partId,
+                direction: 'telegram_to_intercom',
+                senderId: '555',
+                senderName: 'Bob',
+                excerpt: 'My order has not arrived'
+            });
+        }
+
+        it('replies to the Telegram message of the customer part the reply follows', async () => {
+            const { storage, telegram, intercom, fromIntercom } = createBridge();
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001', lastMessageId: '43' });
+            await linkTelegramMessage(storage, '41', 'part-10');
+            await linkTelegramMessage(storage, '43', 'part-30');
+            intercom.findPrecedingCustomerPart.mockResolvedValue('part-10');
+
+            await fromIntercom(intercomMessage());
+
+            expect(intercom.findPrecedingCustomerPart).toHaveBeenCalledWith('1001', 'part-20');
+            expect(telegram.sendMessage).toHaveBeenCalledWith(GROUP_ID, expect.any(String), '41');
+        });
+
+        it('sends the reply unthreaded when the preceding part has no Telegram message', async () => {
+            const { storage, telegram, intercom, fromIntercom } = createBridge();
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001', lastMessageId: '43' });
+            intercom.findPrecedingCustomerPart.mockResolvedValue('part-opening');
+
+            await fromIntercom(intercomMessage());
+
+            expect(telegram.sendMessage).toHaveBeenCalledWith(GROUP_ID, expect.any(String), undefined);
+        });
+    });
+
+    describe('replies sent in several parts', () => {
+        it('resumes a reply after the parts the group already received', async () => {
+            const { bridge, storage, telegram, fromIntercom } = createBridge();
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+            telegram.splitMessage.mockReturnValue(['part one', 'part two', 'part three']);
+            telegram.sendMessage
+                .mockResolvedValueOnce('901')
+                .mockRejectedValueOnce(new Error('Bad Gateway'))
+                .mockResolvedValueOnce('902')
+                .mockResolvedValueOnce('903');
+
+            await fromIntercom(intercomMessage());
+            const queued = await storage.peekQueuedMessage(GROUP_ID, 'intercom_to_telegram');
+            expect(queued?.message.deliveredParts).toEqual(['901']);
+
+            await bridge['deliverToTelegram'](queued!.message);
+
+            expect(telegram.sendMessage.mock.calls.map(call => [call[1], call[2]])).toEqual([
+                ['part one', undefined],
+                ['part two', '901'],
+                ['part two', '901'],
+                ['part three', '902']
+            ]);
+            expect((await storage.getMessageLinkByIntercomPart('part-20'))?.telegramMessageId).toBe('901');
+        });
+    });
+
+    describe('shutdown', () => {
+        it('leaves the conversation lock of a handler still running to expire', async () => {
+            const { bridge, storage, intercom, fromTelegram } = createBridge({ shutdownTimeoutMs: 10 });
+            intercom.createConversation.mockReturnValue(new Promise(() => undefined));
+
+            fromTelegram(telegramMessage());
+            await bridge.stop();
+
+            expect(await storage.acquireLock(GROUP_ID, 'other-instance')).toBe(false);
+            expect(await storage.peekQueuedMessage(GROUP_ID)).toMatchObject({ message: { id: '41' } });
+        });
+    });
+
+    describe('groups awaiting approval', () => {
+        it('holds the group\'s messages and forwards them in order once it is approved', async () => {
+            const { intercom, groupAccess, fromTelegram } = createBridge({}, { required: true, allowedGroups: [] });
+
+            await fromTelegram(telegramMessage({ id: '41', text: 'First question' }));
+            await fromTelegram(telegramMessage({ id: '42', text: 'Second question' }));
+            expect(intercom.createConversation).not.toHaveBeenCalled();
+
+            await groupAccess.approve(GROUP_ID);
+            // Released messages are forwarded by a listener nobody awaits
+            await new Promise(resolve => setImmediate(resolve));
+
+            expect(intercom.createConversation).toHaveBeenCalledTimes(1);
+            expect(intercom.createConversation.mock.calls[0][1]).toContain('First question');
+            expect(intercom.sendMessage).toHaveBeenCalledTimes(1);
+            expect(intercom.sendMessage.mock.calls[0][1]).toContain('Second question');
+        });
+    });
+});
@@ -1,252 +1,1026 @@
-import { TelegramService } from './telegram.service';
-import { IntercomService } from './intercom.service';
-import { RedisService } from './redis.service';
-import { Message } from '../types';
+import crypto from 'crypto';
+import { MediaKind, OutgoingMedia, TelegramService } from './telegram.service';
+import { IntercomAttachmentFile, IntercomService } from './intercom.service';
+import { BridgeStorage } from './storage';
+import { DeliveryPolicy, RetryService } from './retry.service';
+import { NotificationService } from './notification.service';
+import { GroupAccessService } from './group-access.service';
+import {
+    Attachment,
+    ClosedConversationPolicy,
+    ContextMessage,
+    ConversationLifecycleEvent,
+    ForwardingMode,
+    GroupConfig,
+    Message,
+    MessageDirection,
+    MessageLink,
+    QueuedMessage
+} from '../types';
+import { detectMimeType, formatFileSize, mimeTypeFromFileName } from '../utils/mime';
+import { escapeAttribute, escapeHtml } from '../utils/html';
+import { entitiesToHtml, htmlToPlainText, htmlToTelegram } from '../utils/formatting';
+import { logger } from '../utils/logger';
+import { groupLockContention, messageFailures, messagesForwarded } from '../utils/metrics';
+
+const log = logger.child({ component: 'bridge' });
+
+export interface BridgeOptions {
+    closedConversationPolicy: ClosedConversationPolicy;
+    forwardingMode: ForwardingMode;
+    forwardingKeywords: string[];
+    contextMessages: number; // Skipped messages kept for the next forwarded one, 0 disables it
+    groups: Record<string, GroupConfig>; // Per-group overrides of the options above
+    shutdownTimeoutMs: number; // How long stop() waits for in-flight messages
+}
+
+const DEFAULT_BRIDGE_OPTIONS: BridgeOptions = {
+    closedConversationPolicy: 'reopen',
+    forwardingMode: 'all',
+    forwardingKeywords: [],
+    contextMessages: 0,
+    groups: {},
+    shutdownTimeoutMs: 10000
+};
 
 export class BridgeService {
+    private readonly TELEGRAM_HEADER = '💬 <b>Intercom Support</b>';
+    private readonly options: BridgeOptions;
+    private inFlight = new Map<Promise<void>, Message | undefined>(); // Handlers running, with the message they forward
+
     constructor(
         private telegramService: TelegramService,
         private intercomService: IntercomService,
-        private redisService: RedisService
+        private storage: BridgeStorage,
+        private retryService: RetryService,
+        private outboundRetryService: RetryService, // Drains the queue of replies to Telegram
+        private notificationService: NotificationService,
+        private groupAccessService: GroupAccessService,
+        options: Partial<BridgeOptions> = {}
     ) {
+        this.options = { ...DEFAULT_BRIDGE_OPTIONS, ...options };
         this.setupEventHandlers();
     }
 
-    private async processQueuedMessages(groupId: string, conversationId: string): Promise<void> {
-        try {
-            const messages = await this.redisService.getQueuedMessages(groupId);
-            console.log('Processing queued messages:', {
+    /**
+     * Returns the conversation new Telegram messages should go to, applying the closed
+     * conversation policy. Resolves to null when the group needs a new conversation.
+     */
+    private async getActiveConversation(groupId: string): Promise<string | null> {
+        const mapping = await this.storage.getGroupMapping(groupId);
+        if (!mapping) {
+            return null;
+        }
+
+        const state = mapping.conversationState || 'open';
+        const policy = this.options.groups[groupId]?.closedConversationPolicy || this.options.closedConversationPolicy;
+        if (state === 'deleted' || (state === 'closed' && policy === 'new')) {
+            await this.storage.archiveGroupMapping(groupId, `conversation ${state}`);
+            return null;
+        }
+
+        if (state !== 'open') {
+            // A customer reply reopens closed and wakes snoozed conversations in Intercom
+            log.info('Replying to inactive conversation, Intercom will reopen it', {
                 groupId,
-                messageCount: messages.length
+                conversationId: mapping.intercomConversationId,
+                state
             });
+            await this.storage.updateConversationState(groupId, 'open');
+        }
 
-            for (const message of messages) {
+        return mapping.intercomConversationId;
+    }
+
+    private async handleLifecycleEvent(event: ConversationLifecycleEvent): Promise<void> {
+        const groupId = event.groupId || await this.storage.getTelegramGroup(event.conversationId);
+        if (!groupId) {
+            log.info('No Telegram group found for conversation lifecycle event', {
+                conversationId: event.conversationId,
+                kind: event.kind
+            });
+            return;
+        }
+
+        const mapping = await this.storage.getGroupMapping(groupId);
+        if (!mapping || mapping.intercomConversationId !== event.conversationId) {
+            // The group already moved on to another conversation
+            return;
+        }
+
+        switch (event.kind) {
+            case 'deleted':
+                await this.storage.archiveGroupMapping(groupId, 'conversation deleted');
+                break;
+            case 'closed':
+                await this.storage.updateConversationState(groupId, 'closed');
+                break;
+            case 'snoozed':
+                await this.storage.updateConversationState(groupId, 'snoozed');
+                break;
+            case 'opened':
+                await this.storage.updateConversationState(groupId, 'open');
+                break;
+        }
+
+        log.info('Updated conversation state', {
+            groupId,
+            conversationId: event.conversationId,
+            kind: event.kind
+        });
+
+        await this.notificationService.notify(groupId, event);
+    }
+
+    private async deliverQueuedMessage(groupId: string, message: Message): Promise<void> {
+        let conversationId = await this.getActiveConversation(groupId);
+
+        if (!conversationId && message.event !== 'new') {
+            log.info('Dropping queued edit for group without conversation', {
+                groupId,
+                messageId: message.id
+            });
+            return;
+        }
+
+        if (!conversationId) {
+            // Creating the conversation failed when the message first arrived, try again with it
+            const result = await this.createGroupConversation(message);
+            if (!result) {
+                throw new Error('Conversation for group is being created by another worker');
+            }
+            if (result.created) {
+                // The message became the first part of the new conversation
+                return;
+            }
+            conversationId = result.conversationId;
+        }
+
+        await this.forwardToIntercom(conversationId, message);
+    }
+
+    /**
+     * Creates the group's Intercom conversation with the message as its first part.
+     * Resolves to null if another worker currently holds the group's lock.
+     */
+    private async createGroupConversation(message: Message): Promise<{ conversationId: string; created: boolean } | null> {
+        const owner = crypto.randomUUID();
+        const lockAcquired = await this.storage.acquireLock(message.groupId, owner);
+        if (!lockAcquired) {
+            return null;
+        }
+
+        try {
+            // Double-check if conversation exists after acquiring lock
+            const existingConversation = await this.storage.getIntercomConversation(message.groupId);
+            if (existingConversation) {
+                return { conversationId: existingConversation, created: false };
+            }
+
+            // Create new conversation with group metadata
+            log.info('Creating new Intercom conversation for group', {
+                groupId: message.groupId,
+                groupName: message.groupName
+            });
+
+            const conversationId = await this.intercomService.createConversation(
+                message.sender,
+                this.formatContext(message.context) + (entitiesToHtml(message.text, message.entities) || '[Attachment]'),
+                {
+                    groupName: message.groupName,
+                    groupId: message.groupId,
+                    firstMessageTime: message.timestamp
+                }
+            );
+
+            // Save mapping
+            await this.storage.saveGroupMapping({
+                telegramGroupId: message.groupId,
+                intercomConversationId: conversationId,
+                lastMessageId: message.id
+            });
+
+            log.info('Created and mapped new conversation', {
+                groupId: message.groupId,
+                conversationId: conversationId
+            });
+            messagesForwarded.inc({ direction: 'telegram_to_intercom' });
+
+            if (message.attachments && message.attachments.length > 0) {
+                // New conversations are started without files, send them as the first reply
+                const attachmentsOnly: Message = { ...message, text: '' };
                 try {
-                    await this.intercomService.sendMessage(
-                        conversationId,
-                        this.formatMessageForIntercom(message),
-                        message.sender.id
-                    );
+                    await this.forwardToIntercom(conversationId, attachmentsOnly);
                 } catch (error) {
-                    console.error('Error processing queued message:', error);
-                    // Re-queue failed message
-                    await this.redisService.queueMessage(groupId, message);
+                    log.error('Error sending attachments of first message, queuing for retry', { error });
+                    await this.storage.queueMessage(message.groupId, attachmentsOnly);
                 }
             }
 
-            // Clear queue only after successful processing
-            await this.redisService.clearMessageQueue(groupId);
-        } catch (error) {
-            console.error('Error processing message queue:', error);
+            return { conversationId, created: true };
+        } finally {
+            // Release lock in finally block to ensure it's always released
+            await this.storage.releaseLock(message.groupId, owner);
         }
     }
 
     private async handleNewGroup(message: Message): Promise<string | null> {
         if (!message.groupId || !message.groupName) {
-            console.error('Message is missing required group information:', message);
+            log.error('Message is missing required group information', {
+                messageId: message.id,
+                groupId: message.groupId
+            });
             return null;
         }
 
         try {
-            // Try to acquire lock
-            const lockAcquired = await this.redisService.acquireLock(message.groupId);
-            if (!lockAcquired) {
-                console.log('Lock not acquired, queuing message:', {
+            const result = await this.createGroupConversation(message);
+            if (!result) {
+                groupLockContention.inc();
+                log.info('Lock not acquired, queuing message', {
                     groupId: message.groupId,
                     messageId: message.id
                 });
-                
-                // Queue the message in Redis
-                await this.redisService.queueMessage(message.groupId, message);
-                
+
+                // Queue the message in Redis, the retry worker delivers it once the conversation exists
+                await this.storage.queueMessage(message.groupId, message);
+
                 // Wait and check if conversation was created
                 await new Promise(resolve => setTimeout(resolve, 1000));
-                return await this.redisService.getIntercomConversation(message.groupId);
+                return await this.storage.getIntercomConversation(message.groupId);
             }
 
-            try {
-                // Double-check if conversation exists after acquiring lock
-                const existingConversation = await this.redisService.getIntercomConversation(message.groupId);
-                if (existingConversation) {
-                    return existingConversation;
-                }
+            if (!result.created) {
+                await this.forwardToIntercom(result.conversationId, message);
+            }
 
-                // Create new conversation with group metadata
-                console.log('Creating new Intercom conversation for group:', {
-                    groupId: message.groupId,
-                    groupName: message.groupName
-                });
+            // Deliver messages queued while the conversation was being created
+            await this.retryService.drainGroup(message.groupId);
 
-                const conversationId = await this.intercomService.createConversation(
-                    message.sender.id,
-                    message.sender.username || message.sender.name || '',
-                    message.text,
-                    {
-                        groupName: message.groupName,
-                        groupId: message.groupId,
-                        firstMessageTime: message.timestamp
-                    }
-                );
+            return result.conversationId;
+        } catch (error) {
+            log.error('Error creating new conversation', { error });
+            messageFailures.inc({ direction: 'telegram_to_intercom', reason: 'conversation_create_failed' });
+            // Queue the message if conversation creation fails
+            await this.storage.queueMessage(message.groupId, message);
+            return null;
+        }
+    }
 
-                // Save mapping
-                await this.redisService.saveGroupMapping({
-                    telegramGroupId: message.groupId,
-                    intercomConversationId: conversationId,
-                    lastMessageId: message.id
+    /**
+     * Runs an event handler, keeping track of it until it settles so stop() can wait for it.
+     * Messages are passed along to be queued if the handler doesn't finish in time.
+     */
+    private track(handler: () => Promise<void>, message?: Message): Promise<void> {
+        const work: Promise<void> = handler()
+            .catch(error => {
+                // Nobody awaits the handlers, e.g. queuing failed after storage was disconnected
+                log.error('Unhandled error in event handler', {
+                    groupId: message?.groupId,
+                    messageId: message?.id,
+                    error
                 });
+            })
+            .finally(() => {
+                this.inFlight.delete(work);
+            });
+        this.inFlight.set(work, message);
+        return work;
+    }
 
-                console.log('Created and mapped new conversation:', {
-                    groupId: message.groupId,
-                    conversationId: conversationId
-                });
+    /**
+     * Forwards a Telegram message of an approved group, applying the group's forwarding mode.
+     */
+    private async forwardTelegramMessage(message: Message): Promise<void> {
+        const forwarding = this.getForwardingSettings(message.groupId);
+        if (!await this.shouldForward(message, forwarding)) {
+            log.debug('Not forwarding message in this group\'s forwarding mode', {
+                groupId: message.groupId,
+                messageId: message.id,
+                mode: forwarding.mode
+            });
+            if (message.event === 'new' && forwarding.contextMessages > 0) {
+                await this.storage.addContextMessage(message.groupId, {
+                    senderName: message.sender.name,
+                    text: message.text || '[Attachment]',
+                    timestamp: message.timestamp
+                }, forwarding.contextMessages);
+            }
+            return;
+        }
+
+        if (message.event === 'new' && forwarding.contextMessages > 0) {
+            // Kept on the message, so the context survives a retry
+            const context = await this.storage.takeContextMessages(message.groupId);
+            message.context = context.length > 0 ? context : undefined;
+        }
 
-                // Process any queued messages
-                await this.processQueuedMessages(message.groupId, conversationId);
+        let intercomConversationId = await this.getActiveConversation(message.groupId);
 
-                return conversationId;
-            } finally {
-                // Release lock in finally block to ensure it's always released
-                await this.redisService.releaseLock(message.groupId);
+        if (!intercomConversationId && message.event !== 'new') {
+            // Nothing was forwarded for this group yet, so there is nothing to correct
+            log.info('Skipping edit for group without conversation', {
+                groupId: message.groupId,
+                messageId: message.id,
+                event: message.event
+            });
+            return;
+        }
+
+        if (intercomConversationId) {
+            // Send message to existing conversation
+            log.info('Forwarding to existing Intercom conversation', {
+                conversationId: intercomConversationId
+            });
+
+            try {
+                await this.forwardToIntercom(intercomConversationId, message);
+            } catch (error) {
+                if (this.intercomService.isConversationNotFound(error) && message.event === 'new') {
+                    // The conversation was deleted, the message starts a new one
+                    await this.handleNewGroup(message);
+                    return;
+                }
+                log.error('Error sending message to Intercom, queuing for retry', { error });
+                messageFailures.inc({ direction: 'telegram_to_intercom', reason: 'intercom_error' });
+                await this.storage.queueMessage(message.groupId, message);
+            }
+        } else {
+            // Handle new group with locking mechanism
+            intercomConversationId = await this.handleNewGroup(message);
+            
+            if (!intercomConversationId) {
+                log.error('Failed to create or find conversation for group', {
+                    groupId: message.groupId
+                });
             }
-        } catch (error) {
-            console.error('Error creating new conversation:', error);
-            // Queue the message if conversation creation fails
-            await this.redisService.queueMessage(message.groupId, message);
-            return null;
         }
     }
 
     private setupEventHandlers(): void {
         // Handle messages from Telegram
-        this.telegramService.on('message', async (message: Message) => {
+        this.telegramService.on('message', (message: Message) => this.track(async () => {
             try {
-                console.log('Processing Telegram message:', message);
-
-                let intercomConversationId = await this.redisService.getIntercomConversation(message.groupId);
-                
-                if (intercomConversationId) {
-                    // Send message to existing conversation
-                    console.log('Forwarding to existing Intercom conversation:', {
-                        conversationId: intercomConversationId
+                log.debug('Processing Telegram message', { message });
+
+                const isNewMessage = await this.storage.markTelegramMessageProcessed(
+                    message.groupId,
+                    this.getDedupeId(message)
+                );
+                if (!isNewMessage) {
+                    log.info('Skipping already processed Telegram message', {
+                        groupId: message.groupId,
+                        messageId: message.id,
+                        event: message.event
                     });
+                    return;
+                }
 
-                    try {
-                        await this.intercomService.sendMessage(
-                            intercomConversationId,
-                            this.formatMessageForIntercom(message),
-                            message.sender.id
-                        );
-                    } catch (error) {
-                        console.error('Error sending message to Intercom, queuing for retry:', error);
-                        await this.redisService.queueMessage(message.groupId, message);
-                    }
-                } else {
-                    // Handle new group with locking mechanism
-                    intercomConversationId = await this.handleNewGroup(message);
-                    
-                    if (!intercomConversationId) {
-                        console.error('Failed to create or find conversation for group:', {
-                            groupId: message.groupId
-                        });
-                    }
+                if (!await this.groupAccessService.isAllowed(message)) {
+                    await this.groupAccessService.hold(message);
+                    return;
                 }
+
+                await this.forwardTelegramMessage(message);
             } catch (error) {
-                console.error('Error handling Telegram message:', error);
+                log.error('Error handling Telegram message', { error });
+                messageFailures.inc({ direction: 'telegram_to_intercom', reason: 'unexpected_error' });
                 // Queue message on any unexpected error
-                await this.redisService.queueMessage(message.groupId, message);
+                await this.storage.queueMessage(message.groupId, message);
+            }
+        }, message));
+
+        // Messages a group posted while awaiting approval, forwarded in order once it is approved
+        this.groupAccessService.on('released', async (groupId: string, messages: Message[]) => {
+            for (const message of messages) {
+                await this.track(async () => {
+                    try {
+                        await this.forwardTelegramMessage(message);
+                    } catch (error) {
+                        log.error('Error forwarding released Telegram message', { groupId, error });
+                        messageFailures.inc({ direction: 'telegram_to_intercom', reason: 'unexpected_error' });
+                        await this.storage.queueMessage(groupId, message);
+                    }
+                }, message);
             }
         });
 
         // Handle messages from Intercom
-        this.intercomService.on('message', async (message: Message) => {
-            try {
-                console.log('Processing Intercom message:', {
-                    message
+        this.intercomService.on('message', (message: Message) => this.track(async () => {
+            log.info('Processing Intercom message', {
+                messageId: message.id,
+                conversationId: message.conversationId,
+                groupId: message.groupId
+            });
+
+            if (!message.groupId) {
+                log.warn('No matching Telegram group found for Intercom conversation', {
+                    conversationId: message.sender.id
                 });
+                messageFailures.inc({ direction: 'intercom_to_telegram', reason: 'no_group' });
+                return;
+            }
 
-                const telegramGroupId = message.groupId;
-                
-                if (telegramGroupId) {
-                    console.log('Forwarding to Telegram group:', {
-                        groupId: telegramGroupId
+            try {
+                const mapping = await this.storage.getGroupMapping(message.groupId);
+                if (mapping?.inactiveSince) {
+                    log.warn('Not delivering reply, the bot is no longer in the group', {
+                        groupId: message.groupId,
+                        conversationId: message.conversationId
                     });
+                    messageFailures.inc({ direction: 'intercom_to_telegram', reason: 'group_inactive' });
+                    await this.reportInactiveGroup(message);
+                    return;
+                }
 
-                    await this.telegramService.sendMessage(
-                        telegramGroupId,
-                        this.formatMessageForTelegram(message)
-                    );
-
-                    if (message.attachments && message.attachments.length > 0) {
-                        for (const attachment of message.attachments) {
-                            await this.telegramService.sendFile(
-                                telegramGroupId,
-                                attachment.url,
-                                attachment.type
-                            );
-                        }
-                    }
-
-                    console.log('Message forwarded successfully to Telegram');
-                } else {
-                    console.warn('No matching Telegram group found for Intercom conversation:', {
-                        conversationId: message.sender.id
-                    });
+                if (await this.storage.getQueueLength(message.groupId, 'intercom_to_telegram') > 0) {
+                    // Earlier replies are waiting for the group, queue behind them to keep the order
+                    await this.storage.queueMessage(message.groupId, message, 'intercom_to_telegram');
+                    await this.outboundRetryService.drainGroup(message.groupId);
+                    return;
                 }
+                await this.deliverToTelegram(message);
             } catch (error) {
-                console.error('Error handling Intercom message:', error);
+                log.error('Error sending message to Telegram, queuing for retry', { error });
+                messageFailures.inc({ direction: 'intercom_to_telegram', reason: 'telegram_error' });
+                await this.storage.queueMessage(message.groupId, message, 'intercom_to_telegram');
             }
-        });
+        }, message));
+
+        // Track conversation state changes made by agents
+        this.intercomService.on('lifecycle', (event: ConversationLifecycleEvent) => this.track(async () => {
+            try {
+                await this.handleLifecycleEvent(event);
+            } catch (error) {
+                log.error('Error handling conversation lifecycle event', { error });
+            }
+        }));
 
         // Handle errors
         this.telegramService.on('error', (error: Error) => {
-            console.error('Telegram service error:', error);
+            log.error('Telegram service error', { error });
         });
 
         this.intercomService.on('error', (error: Error) => {
-            console.error('Intercom service error:', error);
+            log.error('Intercom service error', { error });
         });
     }
 
-    private formatMessageForIntercom(message: Message): string {
-        let formattedMessage = `From Telegram Group: ${message.sender.name}\n\n${message.text}`;
-        
-        if (message.attachments && message.attachments.length > 0) {
-            formattedMessage += '\n\nAttachments:';
-            message.attachments.forEach(attachment => {
-                formattedMessage += `\n- ${attachment.type}: ${attachment.url}`;
+    /**
+     * Sends an Intercom reply to its Telegram group, used for new replies and by the outbound
+     * retry worker. Throws if Telegram rejects the text or a file and its fallback link. Every
+     * part sent is recorded on the message, so a retry resumes where the failed attempt stopped.
+     */
+    private async deliverToTelegram(message: Message): Promise<void> {
+        const telegramGroupId = message.groupId;
+        const delivered = message.deliveredParts || [];
+        log.info('Forwarding to Telegram group', {
+            groupId: telegramGroupId,
+            deliveredParts: delivered.length || undefined
+        });
+
+        const media = this.collectMediaForTelegram(message);
+        const text = this.formatMessageForTelegram(message);
+        const chunks = text ? this.telegramService.splitMessage(text) : [];
+        if (chunks.length === 0 && media.length > 0) {
+            // Image-only replies still need to say where they come from
+            media[0].caption = media[0].caption
+                ? `${this.TELEGRAM_HEADER}\n\n${media[0].caption}`
+                : this.TELEGRAM_HEADER;
+        }
+
+        // Text chunks reply to the previous chunk, media only to the reply target if there is no text
+        const replyToMessageId = await this.findReplyTarget(message);
+        const parts: Array<(previous?: string) => Promise<string>> = [
+            ...chunks.map(chunk => (previous?: string) =>
+                this.telegramService.sendMessage(telegramGroupId, chunk, previous || replyToMessageId)),
+            ...this.planMediaParts(telegramGroupId, media, chunks.length > 0 ? undefined : replyToMessageId)
+        ];
+        for (let index = delivered.length; index < parts.length; index++) {
+            delivered.push(await parts[index](delivered[index - 1]));
+            message.deliveredParts = delivered;
+        }
+
+        const sentMessageId = delivered[0];
+        if (sentMessageId && message.conversationId) {
+            await this.saveMessageLink({
+                telegramChatId: telegramGroupId,
+                telegramMessageId: sentMessageId,
+                intercomConversationId: message.conversationId,
+                intercomPartId: message.id,
+                direction: 'intercom_to_telegram',
+                senderId: message.sender.id,
+                senderName: message.sender.name,
+                excerpt: this.createExcerpt(htmlToPlainText(message.text))
+            });
+        }
+
+        log.info('Message forwarded successfully to Telegram');
+        messagesForwarded.inc({ direction: 'intercom_to_telegram' });
+    }
+
+    /**
+     * Replies that never reach Telegram are reported on their conversation, so the agent
+     * knows the customer didn't see them.
+     */
+    private async reportUndeliveredReply(entry: QueuedMessage): Promise<void> {
+        if (!entry.message.conversationId) {
+            return;
+        }
+        const reason = entry.lastError ? ` (${entry.lastError})` : '';
+        await this.intercomService.addNote(
+            entry.message.conversationId,
+            escapeHtml(`⚠️ This reply could not be delivered to the Telegram group${reason}. The customer has not seen it.`)
+        );
+    }
+
+    private async reportInactiveGroup(message: Message): Promise<void> {
+        if (!message.conversationId) {
+            return;
+        }
+        await this.intercomService.addNote(
+            message.conversationId,
+            escapeHtml('⚠️ The bot was removed from the Telegram group, this reply was not delivered. '
+                + 'Replies reach the group again once the bot is added back.')
+        );
+    }
+
+    private async forwardToIntercom(conversationId: string, message: Message): Promise<void> {
+        const { files, failures } = await this.transferAttachments(message);
+        const original = message.event === 'new'
+            ? null
+            : await this.storage.getMessageLinkByTelegramMessage(message.groupId, message.id).catch(() => null);
+        const quote = message.event === 'new' ? await this.getReplyQuote(message) : undefined;
+
+        let partId: string | undefined;
+        try {
+            partId = await this.intercomService.sendMessage(
+                conversationId,
+                this.formatMessageForIntercom(message, { failedAttachments: failures, quote, original }),
+                message.sender,
+                { groupId: message.groupId, groupName: message.groupName },
+                files
+            );
+        } catch (error) {
+            if (this.intercomService.isConversationNotFound(error)) {
+                log.warn('Intercom conversation no longer exists, archiving mapping', {
+                    groupId: message.groupId,
+                    conversationId
+                });
+                await this.storage.archiveGroupMapping(message.groupId, 'conversation deleted');
+            }
+            throw error;
+        }
+
+        messagesForwarded.inc({ direction: 'telegram_to_intercom' });
+
+        if (message.event === 'new') {
+            await this.storage.updateLastMessageId(message.groupId, message.id).catch(error => {
+                log.error('Error updating last message ID', { error });
             });
         }
 
+        if (partId) {
+            // For edits this re-points the Telegram message at the correction, so a later
+            // edit or reply quotes the current text
+            await this.saveMessageLink({
+                telegramChatId: message.groupId,
+                telegramMessageId: message.id,
+                intercomConversationId: conversationId,
+                intercomPartId: partId,
+                direction: 'telegram_to_intercom',
+                senderId: message.sender.id,
+                senderName: message.sender.name,
+                excerpt: this.createExcerpt(message.text)
+            });
+        }
+    }
+
+    private getForwardingSettings(groupId: string): { mode: ForwardingMode; keywords: string[]; contextMessages: number } {
+        const group = this.options.groups[groupId];
+        return {
+            mode: group?.forwardingMode || this.options.forwardingMode,
+            keywords: group?.forwardingKeywords || this.options.forwardingKeywords,
+            contextMessages: group?.contextMessages ?? this.options.contextMessages
+        };
+    }
+
+    /**
+     * Applies the group's forwarding mode. Edits follow the original message, they are
+     * only forwarded if the original was.
+     */
+    private async shouldForward(message: Message, forwarding: { mode: ForwardingMode; keywords: string[] }): Promise<boolean> {
+        if (forwarding.mode === 'all') {
+            return true;
+        }
+
+        if (message.event !== 'new') {
+            const original = await this.storage.getMessageLinkByTelegramMessage(message.groupId, message.id);
+            return original !== null;
+        }
+
+        switch (forwarding.mode) {
+            case 'addressed':
+                if (message.mentionsBot) {
+                    return true;
+                }
+                // Replies to an agent's message, or to a message that was forwarded
+                return message.replyTo !== undefined
+                    && await this.storage.getMessageLinkByTelegramMessage(message.groupId, message.replyTo.id) !== null;
+            case 'keyword':
+                return forwarding.keywords.some(keyword => this.containsKeyword(message.text, keyword));
+            case 'members':
+                if (message.sentAsGroup) {
+                    return false;
+                }
+                try {
+                    return !await this.telegramService.isGroupAdmin(message.groupId, message.sender.id);
+                } catch (error) {
+                    // Better to forward an administrator's message than to drop a customer's
+                    log.error('Error fetching group administrators, forwarding message', {
+                        groupId: message.groupId,
+                        error
+                    });
+                    return true;
+                }
+        }
+    }
+
+    /**
+     * Matches whole words or hashtags regardless of case: "bug" matches "#bug" but not "debug".
+     */
+    private containsKeyword(text: string, keyword: string): boolean {
+        const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (!escaped) {
+            return false;
+        }
+        return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu').test(text);
+    }
+
+    /**
+     * Edits share the original message_id, so each edit is deduplicated by its edit time.
+     */
+    private getDedupeId(message: Message): string {
+        switch (message.event) {
+            case 'edit':
+                return `${message.id}:edit:${message.editedAt || message.timestamp}`;
+            default:
+                return message.id;
+        }
+    }
+
+    /**
+     * Message links are best effort, failing to store one must not fail (and re-send) the message.
+     */
+    private async saveMessageLink(link: MessageLink): Promise<void> {
+        try {
+            await this.storage.saveMessageLink(link);
+        } catch (error) {
+            log.error('Error saving message link', {
+                telegramMessageId: link.telegramMessageId,
+                intercomPartId: link.intercomPartId,
+                error
+            });
+        }
+    }
+
+    /**
+     * Builds the quote shown in Intercom when a Telegram message replies to another message.
+     * Bridged messages are quoted from the message map, other messages from what Telegram sent along.
+     */
+    private async getReplyQuote(message: Message): Promise<string | undefined> {
+        if (!message.replyTo) {
+            return undefined;
+        }
+
+        const link = await this.storage
+            .getMessageLinkByTelegramMessage(message.groupId, message.replyTo.id)
+            .catch(() => null);
+
+        const senderName = link?.senderName || message.replyTo.senderName || 'an earlier message';
+        const excerpt = link?.excerpt || this.createExcerpt(message.replyTo.text || '');
+
+        return excerpt
+            ? `↩️ In reply to ${senderName}: "${excerpt}"`
+            : `↩️ In reply to ${senderName}`;
+    }
+
+    /**
+     * Intercom has no reply threading, so an admin reply is threaded to the Telegram message
+     * of the customer part it follows in the conversation. Replies following a part that
+     * didn't come from Telegram are sent unthreaded.
+     */
+    private async findReplyTarget(message: Message): Promise<string | undefined> {
+        if (!message.conversationId) {
+            return undefined;
+        }
+        try {
+            const partId = await this.intercomService.findPrecedingCustomerPart(message.conversationId, message.id);
+            const link = partId ? await this.storage.getMessageLinkByIntercomPart(partId) : null;
+            if (!link || link.telegramChatId !== message.groupId) {
+                return undefined;
+            }
+            return link.telegramMessageId;
+        } catch (error) {
+            log.error('Error finding reply target', { error });
+            return undefined;
+        }
+    }
+
+    private createExcerpt(text: string, maxLength: number = 100): string {
+        const singleLine = text.replace(/\s+/g, ' ').trim();
+        return singleLine.length > maxLength
+            ? `${singleLine.slice(0, maxLength - 1)}…`
+            : singleLine;
+    }
+
+    /**
+     * Downloads a message's Telegram files so they can be uploaded to Intercom.
+     * Files that cannot be transferred are returned as readable descriptions instead.
+     */
+    private async transferAttachments(message: Message): Promise<{ files: IntercomAttachmentFile[]; failures: string[] }> {
+        const files: IntercomAttachmentFile[] = [];
+        const failures: string[] = [];
+        const maxBytes = Math.min(
+            this.intercomService.MAX_ATTACHMENT_BYTES,
+            this.telegramService.MAX_DOWNLOAD_BYTES
+        );
+
+        for (const attachment of message.attachments || []) {
+            const label = this.describeAttachment(attachment);
+
+            if (!attachment.fileId) {
+                failures.push(`${label} (not available)`);
+                continue;
+            }
+
+            if (files.length >= this.intercomService.MAX_ATTACHMENTS_PER_REPLY) {
+                failures.push(`${label} (too many files in one message, open it in Telegram)`);
+                continue;
+            }
+
+            if (attachment.size && attachment.size > maxBytes) {
+                failures.push(
+                    `${label} (${formatFileSize(attachment.size)}, larger than the ${formatFileSize(maxBytes)} limit, open it in Telegram)`
+                );
+                continue;
+            }
+
+            try {
+                const { data, filePath } = await this.telegramService.downloadFile(attachment.fileId, maxBytes);
+                const name = attachment.fileName || filePath?.split('/').pop() || `${attachment.type}_${message.id}`;
+                const contentType = attachment.mimeType && attachment.mimeType !== 'application/octet-stream'
+                    ? attachment.mimeType
+                    : detectMimeType(data, name);
+
+                files.push({ name, contentType, data });
+            } catch (error) {
+                log.error('Error transferring attachment to Intercom', {
+                    messageId: message.id,
+                    fileId: attachment.fileId,
+                    error: error instanceof Error ? error.message : error
+                });
+                failures.push(`${label} (could not be transferred, open it in Telegram)`);
+            }
+        }
+
+        return { files, failures };
+    }
+
+    private describeAttachment(attachment: Attachment): string {
+        const labels: Record<string, string> = {
+            image: 'Photo',
+            file: 'Document',
+            video: 'Video',
+            audio: 'Audio'
+        };
+        const label = labels[attachment.type] || 'File';
+        return attachment.fileName ? `${label} "${attachment.fileName}"` : label;
+    }
+
+    /**
+     * Builds the HTML body of the Intercom reply, keeping the Telegram formatting.
+     */
+    private formatMessageForIntercom(
+        message: Message,
+        context: { failedAttachments?: string[]; quote?: string; original?: MessageLink | null } = {}
+    ): string {
+        const { failedAttachments = [], quote, original } = context;
+
+        const header = message.event === 'edit'
+            ? [
+                `✏️ Correction from Telegram Group: ${message.sender.name} edited an earlier message`,
+                original?.excerpt ? `Previously: "${original.excerpt}"` : ''
+            ].filter(Boolean)
+            : [`From Telegram Group: ${message.sender.name}`];
+
+        let formattedMessage = `<p>${header.map(escapeHtml).join('<br>')}</p>`;
+        formattedMessage += this.formatContext(message.context);
+        if (quote) {
+            formattedMessage += `<blockquote>${escapeHtml(quote)}</blockquote>`;
+        }
+        formattedMessage += entitiesToHtml(message.text, message.entities);
+
+        if (failedAttachments.length > 0) {
+            const items = failedAttachments.map(description => `<li>${escapeHtml(description)}</li>`);
+            formattedMessage += `<p>Attachments not transferred:</p><ul>${items.join('')}</ul>`;
+        }
+
         return formattedMessage;
     }
 
+    /**
+     * Renders the group messages that were not forwarded before this one.
+     */
+    private formatContext(context?: ContextMessage[]): string {
+        if (!context?.length) {
+            return '';
+        }
+        const lines = context.map(entry => `<b>${escapeHtml(entry.senderName)}:</b> ${escapeHtml(entry.text)}`);
+        return `<p>Earlier in the group:</p><blockquote>${lines.join('<br>')}</blockquote>`;
+    }
+
+    /**
+     * Turns an Intercom reply's attachments and inline <img> tags into Telegram media,
+     * picking the send method from the MIME type.
+     */
+    private collectMediaForTelegram(message: Message): OutgoingMedia[] {
+        const media: OutgoingMedia[] = [];
+
+        for (const attachment of message.attachments || []) {
+            if (!attachment.url) {
+                continue;
+            }
+            const kind = this.getMediaKind(attachment);
+            media.push({
+                kind,
+                url: attachment.url,
+                fileName: attachment.fileName,
+                // Photos speak for themselves, other files are labelled with their name
+                caption: kind !== 'photo' && attachment.fileName ? escapeHtml(attachment.fileName) : undefined
+            });
+        }
+
+        const inlineImage = /<img[^>]*\ssrc=["']([^"']+)["'][^>]*>/gi;
+        let match: RegExpExecArray | null;
+        while ((match = inlineImage.exec(message.text)) !== null) {
+            media.push({
+                kind: 'photo',
+                url: match[1].replace(/&amp;/g, '&')
+            });
+        }
+
+        return media;
+    }
+
+    private getMediaKind(attachment: Attachment): MediaKind {
+        const mimeType = attachment.mimeType || mimeTypeFromFileName(attachment.fileName) || '';
+
+        // GIFs and SVGs lose their animation or fail as photos
+        if (mimeType.startsWith('image/') && mimeType !== 'image/gif' && mimeType !== 'image/svg+xml') {
+            return 'photo';
+        }
+        if (mimeType === 'video/mp4') {
+            return 'video';
+        }
+        // sendAudio only plays MP3 and M4A, anything else is delivered as a file
+        if (mimeType === 'audio/mpeg' || mimeType === 'audio/mp4') {
+            return 'audio';
+        }
+        return 'document';
+    }
+
+    /**
+     * One part per album of up to 10 photos and per other file, each returning its first
+     * Telegram message.
+     */
+    private planMediaParts(groupId: string, media: OutgoingMedia[], replyToMessageId?: string): Array<() => Promise<string>> {
+        const photos = media.filter(item => item.kind === 'photo');
+        const others = media.filter(item => item.kind !== 'photo');
+        const parts: Array<() => Promise<string>> = [];
+
+        // Albums hold at most 10 items and need at least 2
+        for (let i = 0; i < photos.length; i += 10) {
+            const album = photos.slice(i, i + 10);
+            parts.push(async () => {
+                try {
+                    return album.length === 1
+                        ? await this.telegramService.sendMedia(groupId, album[0], replyToMessageId)
+                        : (await this.telegramService.sendMediaGroup(groupId, album, replyToMessageId))[0];
+                } catch (error) {
+                    log.error('Error sending images to Telegram, falling back to links', { error });
+                    return await this.sendMediaLinks(groupId, album, replyToMessageId);
+                }
+            });
+        }
+
+        for (const item of others) {
+            parts.push(async () => {
+                try {
+                    return await this.telegramService.sendMedia(groupId, item, replyToMessageId);
+                } catch (error) {
+                    log.error('Error sending file to Telegram, falling back to a link', { error });
+                    return await this.sendMediaLinks(groupId, [item], replyToMessageId);
+                }
+            });
+        }
+
+        return parts;
+    }
+
+    /**
+     * Fallback for files Telegram refuses to fetch (too large, unsupported format), so the
+     * customer can still open them.
+     */
+    private async sendMediaLinks(groupId: string, media: OutgoingMedia[], replyToMessageId?: string): Promise<string> {
+        const links = media.map((item, index) => {
+            const label = item.fileName
+                ? escapeHtml(item.fileName)
+                : `${item.kind === 'photo' ? 'Image' : 'File'} ${index + 1}`;
+            return `📎 <a href="${escapeAttribute(item.url)}">${label}</a>`;
+        });
+        return await this.telegramService.sendMessage(groupId, links.join('\n'), replyToMessageId);
+    }
+
     private formatMessageForTelegram(message: Message): string {
-        // Remove HTML tags and decode HTML entities
-        let cleanText = message.text
-            .replace(/<p[^>]*>/g, '') // Remove <p> tags with any attributes
-            .replace(/<\/p>/g, '\n') // Replace closing </p> with newline
-            .replace(/<br\s*\/?>/g, '\n') // Replace <br> tags with newline
-            .replace(/<[^>]+>/g, '') // Remove any remaining HTML tags
-            .replace(/&nbsp;/g, ' ') // Replace &nbsp; with space
-            .replace(/&lt;/g, '<') // Replace &lt; with <
-            .replace(/&gt;/g, '>') // Replace &gt; with >
-            .replace(/&amp;/g, '&') // Replace &amp; with &
-            .replace(/&quot;/g, '"') // Replace &quot; with "
-            .trim(); // Remove extra whitespace
+        const text = htmlToTelegram(message.text);
+        // Bodies holding nothing but images are sent as media
+        if (!text.replace(/<[^>]+>/g, '').trim()) {
+            return '';
+        }
 
         // Format the message with sender info
-        return `💬 <b>Intercom Support</b>\n\n${cleanText}`;
+        return `${this.TELEGRAM_HEADER}\n\n${text}`;
     }
 
     async start(): Promise<void> {
+        await this.storage.connect();
         await this.telegramService.start();
-        await this.intercomService.startPolling();
-        console.log('Bridge service started');
+        this.intercomService.start();
+        this.retryService.start((groupId, message) => this.deliverQueuedMessage(groupId, message));
+
+        const outboundPolicy: DeliveryPolicy = {
+            retryAfter: error => this.telegramService.getRetryAfter(error),
+            isPermanent: error => this.telegramService.isPermanentError(error),
+            onDeadLetter: entry => this.reportUndeliveredReply(entry)
+        };
+        this.outboundRetryService.start((_groupId, message) => this.deliverToTelegram(message), outboundPolicy);
+        log.info('Bridge service started');
     }
 
+    /**
+     * Stops taking new work, then waits up to shutdownTimeoutMs for messages being forwarded.
+     * Messages still in flight after that are queued for the next instance to deliver and
+     * queue locks are released. Conversation locks of handlers still running are left to
+     * expire, so no other instance creates a conversation for the group alongside them.
+     */
     async stop(): Promise<void> {
         await this.telegramService.stop();
-        await this.intercomService.stopPolling();
-        console.log('Bridge service stopped');
+        this.intercomService.stop();
+
+        const pending = [this.retryService.stop(), this.outboundRetryService.stop(), ...this.inFlight.keys()];
+        log.info('Waiting for in-flight messages', { handlers: this.inFlight.size });
+
+        let timer: NodeJS.Timeout | undefined;
+        const finished = await Promise.race([
+            Promise.allSettled(pending).then(() => true),
+            new Promise<boolean>(resolve => {
+                timer = setTimeout(() => resolve(false), this.options.shutdownTimeoutMs);
+            })
+        ]);
+        clearTimeout(timer);
+
+        if (!finished) {
+            await this.persistInFlight();
+            await this.retryService.releaseLocks();
+            await this.outboundRetryService.releaseLocks();
+        }
+
+        await this.storage.disconnect();
+        log.info('Bridge service stopped', { drained: finished });
+    }
+
+    private async persistInFlight(): Promise<void> {
+        for (const message of this.inFlight.values()) {
+            if (!message?.groupId) {
+                // Lifecycle events were already acknowledged, there is nothing to hand over
+                log.warn('Abandoning in-flight Intercom event at shutdown');
+                continue;
+            }
+
+            const direction: MessageDirection = message.sender.type === 'intercom'
+                ? 'intercom_to_telegram'
+                : 'telegram_to_intercom';
+            try {
+                // The retry worker of another instance delivers it, at worst a second time
+                await this.storage.queueMessage(message.groupId, message, direction);
+            } catch (error) {
+                log.error('Error queuing in-flight message at shutdown', {
+                    groupId: message.groupId,
+                    messageId: message.id,
+                    error
+                });
+            }
+        }
     }
-} 
\ No newline at end of file
+}
\ No newline at end of file
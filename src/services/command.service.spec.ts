@@ -0,0 +1,49 @@
+import { EventEmitter } from 'events';
+import { CommandService } from './command.service';
+import { TelegramService } from './telegram.service';
+import { IntercomService } from './intercom.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { GroupAccessService } from './group-access.service';
+import { BotCommand } from '../types';
+import { GROUP_ID, intercomMessage, telegramMessage } from '../test-fixtures';
+
+function command(name: string): BotCommand {
+    return {
+        name,
+        args: [],
+        messageId: '41',
+        groupId: GROUP_ID,
+        groupName: 'Customers',
+        sender: { id: '555', name: 'Bob' },
+        timestamp: Date.now()
+    };
+}
+
+describe('CommandService', () => {
+    it('reports the queued messages of both directions in /status', async () => {
+        const storage = new MemoryStorageService();
+        const telegram = Object.assign(new EventEmitter(), { sendMessage: jest.fn(async () => '900') });
+        const intercom = {
+            getConversation: jest.fn(async (id: string) => ({ id, state: 'open' })),
+            isConversationNotFound: jest.fn(() => false)
+        };
+        const commands = new CommandService(
+            telegram as unknown as TelegramService,
+            intercom as unknown as IntercomService,
+            storage,
+            { isApproved: jest.fn(async () => true) } as unknown as GroupAccessService
+        );
+        await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+        await storage.queueMessage(GROUP_ID, telegramMessage());
+        await storage.queueMessage(GROUP_ID, intercomMessage({ id: 'part-1' }), 'intercom_to_telegram');
+        await storage.queueMessage(GROUP_ID, intercomMessage({ id: 'part-2' }), 'intercom_to_telegram');
+
+        await commands.handleCommand(command('status'));
+
+        expect(telegram.sendMessage).toHaveBeenCalledWith(
+            GROUP_ID,
+            expect.stringContaining('Queued messages: 1 to support, 2 to this group'),
+            '41'
+        );
+    });
+});
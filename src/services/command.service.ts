@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { TelegramService } from './telegram.service';
+import { IntercomConversation, IntercomService } from './intercom.service';
+import { BridgeStorage } from './storage';
+import { GroupAccessService } from './group-access.service';
+import { BotCommand, ConversationState } from '../types';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ component: 'commands' });
+
+type CommandHandler = (command: BotCommand) => Promise<string>;
+
+export class CommandService {
+    private readonly handlers: Record<string, CommandHandler>;
+
+    constructor(
+        private telegramService: TelegramService,
+        private intercomService: IntercomService,
+        private storage: BridgeStorage,
+        private groupAccessService: GroupAccessService
+    ) {
+        this.handlers = {
+            status: command => this.handleStatus(command),
+            link: command => this.handleLink(command),
+            unlink: command => this.handleUnlink(command),
+            newticket: command => this.handleNewTicket(command),
+            help: () => this.handleHelp(),
+            start: () => this.handleHelp()
+        };
+        this.setupEventHandlers();
+    }
+
+    private setupEventHandlers(): void {
+        this.telegramService.on('command', async (command: BotCommand) => {
+            try {
+                await this.handleCommand(command);
+            } catch (error) {
+                log.error('Error handling bot command', {
+                    groupId: command.groupId,
+                    command: command.name,
+                    error
+                });
+                await this.reply(command, '⚠️ The command failed, please try again later.').catch(() => undefined);
+            }
+        });
+    }
+
+    async handleCommand(command: BotCommand): Promise<void> {
+        if (!await this.groupAccessService.isApproved(command.groupId, command.groupName)) {
+            await this.reply(command, 'This group is waiting for approval by support, commands are available once it is approved.');
+            return;
+        }
+
+        const handler = this.handlers[command.name];
+        if (!handler) {
+            await this.reply(command, `Unknown command /${escapeHtml(command.name)}. Send /help for the list of commands.`);
+            return;
+        }
+
+        const response = await handler(command);
+        await this.reply(command, response);
+    }
+
+    private async handleStatus(command: BotCommand): Promise<string> {
+        const mapping = await this.storage.getGroupMapping(command.groupId);
+        const [toIntercom, toTelegram] = await Promise.all([
+            this.storage.getQueueLength(command.groupId),
+            this.storage.getQueueLength(command.groupId, 'intercom_to_telegram')
+        ]);
+        const queued = `Queued messages: ${toIntercom} to support, ${toTelegram} to this group`;
+        if (!mapping) {
+            return [
+                'This group is not linked to an Intercom conversation. The next message starts a new one.',
+                queued
+            ].join('\n');
+        }
+
+        let state: string = mapping.conversationState || 'open';
+        let assignee = 'Unassigned';
+        try {
+            const conversation: IntercomConversation = await this.intercomService.getConversation(mapping.intercomConversationId);
+            state = conversation.state || state;
+            if (conversation.admin_assignee_id) {
+                const adminId = String(conversation.admin_assignee_id);
+                assignee = await this.intercomService.getAdminName(adminId) || `Admin ${adminId}`;
+            }
+        } catch (error) {
+            if (!this.intercomService.isConversationNotFound(error)) {
+                throw error;
+            }
+            state = 'deleted';
+        }
+
+        return [
+            '📋 <b>Status</b>',
+            `Conversation: <code>${escapeHtml(mapping.intercomConversationId)}</code>`,
+            `State: ${escapeHtml(state)}`,
+            `Assigned to: ${escapeHtml(assignee)}`,
+            queued
+        ].join('\n');
+    }
+
+    private async handleLink(command: BotCommand): Promise<string> {
+        const conversationId = command.args[0];
+        if (!conversationId) {
+            return 'Usage: /link &lt;conversationId&gt;';
+        }
+
+        const mapping = await this.storage.getGroupMapping(command.groupId);
+        if (mapping?.intercomConversationId === conversationId) {
+            return `This group is already linked to conversation <code>${escapeHtml(conversationId)}</code>.`;
+        }
+
+        let conversation: IntercomConversation;
+        try {
+            conversation = await this.intercomService.getConversation(conversationId);
+        } catch (error) {
+            if (this.intercomService.isConversationNotFound(error)) {
+                return `Conversation <code>${escapeHtml(conversationId)}</code> was not found in Intercom.`;
+            }
+            throw error;
+        }
+
+        const linkedGroup = await this.storage.getTelegramGroup(conversationId);
+        if (linkedGroup && linkedGroup !== command.groupId) {
+            return 'That conversation is linked to another group. Send /unlink there first.';
+        }
+
+        return await this.withGroupLock(command, async () => {
+            await this.storage.archiveGroupMapping(command.groupId, 'relinked by command');
+            await this.intercomService.linkConversationToGroup(conversationId, {
+                groupId: command.groupId,
+                groupName: command.groupName
+            });
+            await this.storage.saveGroupMapping({
+                telegramGroupId: command.groupId,
+                intercomConversationId: conversationId,
+                conversationState: (conversation.state as ConversationState) || 'open'
+            });
+
+            log.info('Group linked to conversation by command', {
+                groupId: command.groupId,
+                conversationId,
+                userId: command.sender.id
+            });
+            return `🔗 Linked this group to conversation <code>${escapeHtml(conversationId)}</code>.`;
+        });
+    }
+
+    private async handleUnlink(command: BotCommand): Promise<string> {
+        const mapping = await this.storage.getGroupMapping(command.groupId);
+        if (!mapping) {
+            return 'This group is not linked to an Intercom conversation.';
+        }
+
+        return await this.withGroupLock(command, async () => {
+            await this.storage.archiveGroupMapping(command.groupId, 'unlinked by command');
+            log.info('Group unlinked by command', {
+                groupId: command.groupId,
+                conversationId: mapping.intercomConversationId,
+                userId: command.sender.id
+            });
+            return [
+                `Unlinked this group from conversation <code>${escapeHtml(mapping.intercomConversationId)}</code>.`,
+                'The next message starts a new one.'
+            ].join('\n');
+        });
+    }
+
+    private async handleNewTicket(command: BotCommand): Promise<string> {
+        return await this.withGroupLock(command, async () => {
+            await this.storage.archiveGroupMapping(command.groupId, 'new ticket requested');
+
+            const conversationId = await this.intercomService.createConversation(
+                command.sender,
+                `New ticket requested in Telegram group ${command.groupName}`,
+                {
+                    groupId: command.groupId,
+                    groupName: command.groupName,
+                    firstMessageTime: command.timestamp
+                }
+            );
+            await this.storage.saveGroupMapping({
+                telegramGroupId: command.groupId,
+                intercomConversationId: conversationId
+            });
+
+            log.info('New conversation opened by command', {
+                groupId: command.groupId,
+                conversationId,
+                userId: command.sender.id
+            });
+            return `🎫 Opened conversation <code>${escapeHtml(conversationId)}</code>. New messages go there.`;
+        });
+    }
+
+    private async handleHelp(): Promise<string> {
+        return [
+            '<b>Commands</b> (group administrators only)',
+            '/status - Show the linked conversation, its state and queued messages',
+            '/link &lt;conversationId&gt; - Link this group to an existing Intercom conversation',
+            '/unlink - Detach the current conversation, the next message starts a new one',
+            '/newticket - Start a new Intercom conversation right away',
+            '/help - Show this list'
+        ].join('\n');
+    }
+
+    /**
+     * Runs a mapping change under the group's lock, so it can't race a conversation being
+     * created for an incoming message.
+     */
+    private async withGroupLock(command: BotCommand, action: () => Promise<string>): Promise<string> {
+        const owner = crypto.randomUUID();
+        const lockAcquired = await this.storage.acquireLock(command.groupId, owner);
+        if (!lockAcquired) {
+            return 'The group\'s conversation is being updated, please try again in a moment.';
+        }
+
+        try {
+            return await action();
+        } finally {
+            await this.storage.releaseLock(command.groupId, owner);
+        }
+    }
+
+    private async reply(command: BotCommand, text: string): Promise<void> {
+        await this.telegramService.sendMessage(command.groupId, text, command.messageId);
+    }
+}
@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import { GroupAccessService } from './group-access.service';
+import { TelegramService } from './telegram.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { Message } from '../types';
+import { GROUP_ID, telegramMessage } from '../test-fixtures';
+
+interface FakeTelegram extends EventEmitter {
+    sendMessage: jest.Mock;
+    leaveChat: jest.Mock;
+}
+
+describe('GroupAccessService', () => {
+    let storage: MemoryStorageService;
+    let telegram: FakeTelegram;
+    let groupAccess: GroupAccessService;
+
+    beforeEach(() => {
+        storage = new MemoryStorageService();
+        telegram = Object.assign(new EventEmitter(), {
+            sendMessage: jest.fn(async () => '900'),
+            leaveChat: jest.fn(async () => undefined)
+        });
+        groupAccess = new GroupAccessService(
+            telegram as unknown as TelegramService,
+            storage,
+            { required: true, allowedGroups: [] }
+        );
+    });
+
+    describe('groups bridged before approvals', () => {
+        it('records the approval of a group that has a mapping when it is first seen', async () => {
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+
+            expect(await groupAccess.isAllowed(telegramMessage({ id: '41' }))).toBe(true);
+
+            expect(await storage.getGroupAccess(GROUP_ID)).toMatchObject({ groupName: 'Customers', status: 'approved' });
+            expect(telegram.sendMessage).not.toHaveBeenCalled();
+        });
+
+        it('keeps a group without mapping or access record unapproved', async () => {
+            expect(await groupAccess.isApproved(GROUP_ID)).toBe(false);
+            expect(await storage.getGroupAccess(GROUP_ID)).toBeNull();
+        });
+
+        it('leaves a recorded decision alone when a mapping is added later', async () => {
+            await groupAccess.isAllowed(telegramMessage({ id: '41' }));
+            await storage.saveGroupMapping({ telegramGroupId: GROUP_ID, intercomConversationId: '1001' });
+
+            expect(await groupAccess.isApproved(GROUP_ID)).toBe(false);
+            expect((await storage.getGroupAccess(GROUP_ID))?.status).toBe('pending');
+        });
+    });
+
+    describe('held messages', () => {
+        it('releases the held messages in order when the group is approved', async () => {
+            const released = jest.fn();
+            groupAccess.on('released', released);
+            for (const id of ['41', '42']) {
+                const message = telegramMessage({ id });
+                expect(await groupAccess.isAllowed(message)).toBe(false);
+                await groupAccess.hold(message);
+            }
+
+            await groupAccess.approve(GROUP_ID);
+
+            expect(released).toHaveBeenCalledTimes(1);
+            expect(released.mock.calls[0][0]).toBe(GROUP_ID);
+            expect(released.mock.calls[0][1].map((message: Message) => message.id)).toEqual(['41', '42']);
+            expect(await storage.takeHeldMessages(GROUP_ID)).toEqual([]);
+        });
+
+        it('discards the held messages when the group is rejected', async () => {
+            const released = jest.fn();
+            groupAccess.on('released', released);
+            const message = telegramMessage({ id: '41' });
+            await groupAccess.isAllowed(message);
+            await groupAccess.hold(message);
+
+            await groupAccess.reject(GROUP_ID);
+            await groupAccess.approve(GROUP_ID);
+
+            expect(telegram.leaveChat).toHaveBeenCalledWith(GROUP_ID);
+            expect(released).not.toHaveBeenCalled();
+        });
+    });
+});
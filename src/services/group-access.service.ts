@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { TelegramService } from './telegram.service';
+import { BridgeStorage } from './storage';
+import { GroupAccess, GroupAccessStatus, MembershipChange, Message } from '../types';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ component: 'group-access' });
+
+export const GROUP_ACCESS_STATUSES: GroupAccessStatus[] = ['pending', 'approved', 'rejected'];
+
+export interface GroupAccessOptions {
+    required: boolean; // Without it every group is bridged, as before approvals existed
+    allowedGroups: string[]; // Approved up front in the configuration
+}
+
+/**
+ * Decides which Telegram groups are bridged. A group the bot is added to is held as pending
+ * and told so, nothing is forwarded to Intercom until an operator approves it through the
+ * admin API or lists it in the configuration. Messages posted meanwhile are held and emitted
+ * as 'released' once the group is approved.
+ */
+export class GroupAccessService extends EventEmitter {
+    private readonly ONBOARDING_MESSAGE = '👋 Thanks for adding me! Messages in this group will reach our support team '
+        + 'once the group is approved. Please share the group ID <code>{groupId}</code> with your contact at support.';
+    private readonly APPROVED_MESSAGE = '✅ This group is now connected to support. Messages posted here reach our team.';
+    private readonly HELD_MESSAGE_LIMIT = 100; // Older held messages of a group are dropped
+
+    constructor(
+        private telegramService: TelegramService,
+        private storage: BridgeStorage,
+        private options: GroupAccessOptions
+    ) {
+        super();
+        this.setupEventHandlers();
+    }
+
+    private setupEventHandlers(): void {
+        this.telegramService.on('membership', async (change: MembershipChange) => {
+            try {
+                if (change.kind === 'added') {
+                    await this.handleBotAdded(change);
+                } else {
+                    await this.handleBotRemoved(change);
+                }
+            } catch (error) {
+                log.error('Error handling membership change', {
+                    groupId: change.groupId,
+                    kind: change.kind,
+                    error
+                });
+            }
+        });
+    }
+
+    /**
+     * Whether the group's messages may be forwarded. A group bridged before approvals were
+     * introduced has a mapping but no access record, it is recorded as approved when first seen.
+     */
+    async isApproved(groupId: string, groupName?: string): Promise<boolean> {
+        if (!this.options.required || this.options.allowedGroups.includes(groupId)) {
+            return true;
+        }
+
+        const access = await this.storage.getGroupAccess(groupId);
+        if (access) {
+            return access.status === 'approved';
+        }
+        if (!await this.storage.getGroupMapping(groupId)) {
+            return false;
+        }
+
+        const now = Date.now();
+        await this.storage.saveGroupAccess({
+            telegramGroupId: groupId,
+            groupName: groupName || groupId,
+            status: 'approved',
+            requestedAt: now,
+            decidedAt: now
+        });
+        log.info('Recorded approval of group bridged before approvals', { groupId });
+        return true;
+    }
+
+    /**
+     * Checks a group message before it is forwarded. A message from a group that was never
+     * seen being joined, e.g. because the bot was added while the bridge was down, starts
+     * the onboarding like adding the bot would.
+     */
+    async isAllowed(message: Message): Promise<boolean> {
+        if (await this.isApproved(message.groupId, message.groupName)) {
+            return true;
+        }
+
+        if (!await this.storage.getGroupAccess(message.groupId)) {
+            await this.requestApproval({
+                telegramGroupId: message.groupId,
+                groupName: message.groupName,
+                status: 'pending',
+                requestedAt: Date.now()
+            });
+        }
+        return false;
+    }
+
+    /**
+     * Keeps a message of a group awaiting approval until the group is decided on.
+     */
+    async hold(message: Message): Promise<void> {
+        await this.storage.holdMessage(message.groupId, message, this.HELD_MESSAGE_LIMIT);
+        log.info('Holding message from group awaiting approval', {
+            groupId: message.groupId,
+            messageId: message.id
+        });
+    }
+
+    async listGroups(status?: GroupAccessStatus): Promise<GroupAccess[]> {
+        const groups = await this.storage.listGroupAccess();
+        return groups
+            .filter(access => !status || access.status === status)
+            .sort((a, b) => b.requestedAt - a.requestedAt);
+    }
+
+    /**
+     * Starts bridging the group, tells it so and releases the messages held meanwhile.
+     * Resolves to null for groups the bot was never added to.
+     */
+    async approve(groupId: string): Promise<GroupAccess | null> {
+        const access = await this.decide(groupId, 'approved');
+        if (!access) {
+            return null;
+        }
+
+        if (!access.removedAt) {
+            await this.telegramService.sendMessage(groupId, this.APPROVED_MESSAGE).catch(error => {
+                log.error('Error sending approval message', { groupId, error });
+            });
+        }
+
+        const held = await this.storage.takeHeldMessages(groupId);
+        if (held.length > 0) {
+            log.info('Releasing messages held until approval', { groupId, count: held.length });
+            this.emit('released', groupId, held);
+        }
+        return access;
+    }
+
+    /**
+     * Stops bridging the group for good and makes the bot leave it.
+     */
+    async reject(groupId: string): Promise<GroupAccess | null> {
+        const access = await this.decide(groupId, 'rejected');
+        if (access) {
+            const discarded = await this.storage.takeHeldMessages(groupId);
+            if (discarded.length > 0) {
+                log.info('Discarded messages held until approval', { groupId, count: discarded.length });
+            }
+        }
+        if (access && !access.removedAt) {
+            await this.telegramService.leaveChat(groupId).catch(error => {
+                log.error('Error leaving rejected group', { groupId, error });
+            });
+        }
+        return access;
+    }
+
+    private async decide(groupId: string, status: GroupAccessStatus): Promise<GroupAccess | null> {
+        const access = await this.storage.getGroupAccess(groupId);
+        if (!access) {
+            return null;
+        }
+
+        const decided: GroupAccess = { ...access, status, decidedAt: Date.now() };
+        await this.storage.saveGroupAccess(decided);
+        log.info('Group access decided', {
+            groupId,
+            groupName: access.groupName,
+            status
+        });
+        return decided;
+    }
+
+    private async handleBotAdded(change: MembershipChange): Promise<void> {
+        const existing = await this.storage.getGroupAccess(change.groupId);
+        if (existing?.status === 'rejected') {
+            log.info('Leaving rejected group', { groupId: change.groupId });
+            await this.storage.saveGroupAccess({ ...existing, groupName: change.groupName, removedAt: undefined });
+            await this.telegramService.leaveChat(change.groupId);
+            return;
+        }
+
+        await this.storage.setGroupMappingActive(change.groupId, true);
+        if (await this.isApproved(change.groupId, change.groupName)) {
+            if (existing) {
+                await this.storage.saveGroupAccess({ ...existing, groupName: change.groupName, removedAt: undefined });
+            }
+            log.info('Bot added to approved group', { groupId: change.groupId });
+            return;
+        }
+
+        await this.requestApproval({
+            telegramGroupId: change.groupId,
+            groupName: change.groupName,
+            status: 'pending',
+            addedBy: change.changedBy,
+            requestedAt: existing?.requestedAt || change.timestamp
+        });
+    }
+
+    private async handleBotRemoved(change: MembershipChange): Promise<void> {
+        const existing = await this.storage.getGroupAccess(change.groupId);
+        if (existing) {
+            await this.storage.saveGroupAccess({ ...existing, removedAt: change.timestamp });
+        }
+        // Replies to the group's conversation can't be delivered until the bot is back
+        await this.storage.setGroupMappingActive(change.groupId, false);
+        log.info('Bot removed from group, mapping marked inactive', {
+            groupId: change.groupId,
+            userId: change.changedBy.id
+        });
+    }
+
+    private async requestApproval(access: GroupAccess): Promise<void> {
+        await this.storage.saveGroupAccess(access);
+        log.info('Group awaiting approval', {
+            groupId: access.telegramGroupId,
+            groupName: access.groupName,
+            addedBy: access.addedBy?.id
+        });
+        // Best effort, a failure must not let the message through to the retry queue
+        await this.telegramService.sendMessage(
+            access.telegramGroupId,
+            this.ONBOARDING_MESSAGE.replace('{groupId}', access.telegramGroupId)
+        ).catch(error => {
+            log.error('Error sending onboarding message', { groupId: access.telegramGroupId, error });
+        });
+    }
+}
@@ -0,0 +1,25 @@
+import { HealthService } from './health.service';
+import { HttpService } from './http.service';
+import { TelegramService } from './telegram.service';
+import { IntercomService } from './intercom.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { metrics } from '../utils/metrics';
+import { telegramMessage } from '../test-fixtures';
+
+describe('HealthService metrics', () => {
+    it('reports the total queue depth per direction without a label per group', async () => {
+        const storage = new MemoryStorageService();
+        new HealthService(new HttpService(), {} as TelegramService, {} as IntercomService, storage);
+        await storage.queueMessage('-100200', telegramMessage({ groupId: '-100200', id: '1' }));
+        await storage.queueMessage('-100200', telegramMessage({ groupId: '-100200', id: '2' }));
+        await storage.queueMessage('-100300', telegramMessage({ groupId: '-100300', id: '3' }));
+        await storage.queueMessage('-100300', telegramMessage({ groupId: '-100300', id: '4' }), 'intercom_to_telegram');
+
+        const depths = (await metrics.render()).split('\n').filter(line => line.startsWith('bridge_queue_depth{'));
+
+        expect(depths).toEqual([
+            'bridge_queue_depth{direction="telegram_to_intercom"} 3',
+            'bridge_queue_depth{direction="intercom_to_telegram"} 1'
+        ]);
+    });
+});
@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { HttpService } from './http.service';
+import { TelegramService } from './telegram.service';
+import { IntercomService } from './intercom.service';
+import { BridgeStorage } from './storage';
+import { MessageDirection } from '../types';
+import { logger } from '../utils/logger';
+import { deadLetters, metrics, queueDepth } from '../utils/metrics';
+
+const log = logger.child({ component: 'health' });
+
+const DIRECTIONS: MessageDirection[] = ['telegram_to_intercom', 'intercom_to_telegram'];
+
+interface CheckResult {
+    status: 'ok' | 'error';
+    latencyMs: number;
+    error?: string;
+}
+
+interface HealthReport {
+    ready: boolean;
+    checkedAt: string;
+    checks: Record<string, CheckResult>;
+}
+
+/**
+ * Serves the probes and metrics of the bridge:
+ * - GET /healthz: liveness, 200 while the process serves requests, with the latest checks
+ * - GET /readyz: readiness, 503 unless storage, Telegram and Intercom all respond
+ * - GET /metrics: Prometheus metrics
+ */
+export class HealthService {
+    private readonly CHECK_TIMEOUT = 5000; // A dependency this slow counts as unavailable
+    private readonly REPORT_TTL = 5000; // Probes are frequent, reuse recent results instead of calling every API
+    private readonly startedAt = Date.now();
+    private readonly checks: Record<string, () => Promise<void>>;
+    private report?: { result: HealthReport; expiresAt: number };
+    private pending?: Promise<HealthReport>;
+
+    constructor(
+        private httpService: HttpService,
+        telegramService: TelegramService,
+        intercomService: IntercomService,
+        private storage: BridgeStorage
+    ) {
+        this.checks = {
+            storage: (): Promise<void> => storage.ping(),
+            telegram: (): Promise<void> => telegramService.ping(),
+            intercom: (): Promise<void> => intercomService.ping()
+        };
+        this.registerCollectors();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.httpService.app.get('/healthz', async (_req: Request, res: Response) => {
+            const report = await this.getReport();
+            res.status(200).json({
+                status: report.ready ? 'ok' : 'degraded',
+                uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+                ...report
+            });
+        });
+
+        this.httpService.app.get('/readyz', async (_req: Request, res: Response) => {
+            const report = await this.getReport();
+            res.status(report.ready ? 200 : 503).json(report);
+        });
+
+        this.httpService.app.get('/metrics', async (_req: Request, res: Response) => {
+            try {
+                res.type('text/plain; version=0.0.4').send(await metrics.render());
+            } catch (error) {
+                log.error('Error rendering metrics', { error });
+                res.status(500).send('Internal Server Error');
+            }
+        });
+    }
+
+    /**
+     * Queue depths are read from storage when metrics are scraped, so every instance
+     * reports the shared queues rather than what it queued itself. The depth of single
+     * groups is left to the admin API, a label per group would grow without bound.
+     */
+    private registerCollectors(): void {
+        queueDepth.collect(async gauge => {
+            try {
+                for (const direction of DIRECTIONS) {
+                    const groups = await this.storage.getQueuedGroups(direction);
+                    const lengths = await Promise.all(groups.map(groupId => this.storage.getQueueLength(groupId, direction)));
+                    gauge.set({ direction }, lengths.reduce((total, length) => total + length, 0));
+                }
+            } catch (error) {
+                log.error('Error collecting queue depths', { error });
+            }
+        });
+
+        deadLetters.collect(async gauge => {
+            try {
+                for (const direction of DIRECTIONS) {
+                    gauge.set({ direction }, await this.storage.getDeadLetterCount(direction));
+                }
+            } catch (error) {
+                log.error('Error collecting dead-letter count', { error });
+            }
+        });
+    }
+
+    private async getReport(): Promise<HealthReport> {
+        if (this.report && this.report.expiresAt > Date.now()) {
+            return this.report.result;
+        }
+
+        // Concurrent probes share one round of checks
+        if (!this.pending) {
+            this.pending = this.runChecks().finally(() => {
+                this.pending = undefined;
+            });
+        }
+        return await this.pending;
+    }
+
+    private async runChecks(): Promise<HealthReport> {
+        const names = Object.keys(this.checks);
+        const results = await Promise.all(names.map(name => this.runCheck(name, this.checks[name])));
+        const checks = Object.fromEntries(names.map((name, index) => [name, results[index]]));
+        const result: HealthReport = {
+            ready: results.every(check => check.status === 'ok'),
+            checkedAt: new Date().toISOString(),
+            checks
+        };
+
+        if (!result.ready && this.report?.result.ready !== false) {
+            log.warn('Readiness check failed', { checks });
+        }
+        this.report = { result, expiresAt: Date.now() + this.REPORT_TTL };
+        return result;
+    }
+
+    private async runCheck(name: string, check: () => Promise<void>): Promise<CheckResult> {
+        const start = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                check(),
+                new Promise<never>((_resolve, reject) => {
+                    timer = setTimeout(() => reject(new Error(`${name} check timed out`)), this.CHECK_TIMEOUT);
+                })
+            ]);
+            return { status: 'ok', latencyMs: Date.now() - start };
+        } catch (error) {
+            return {
+                status: 'error',
+                latencyMs: Date.now() - start,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
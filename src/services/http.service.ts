@@ -0,0 +1,74 @@
+import express, { Request, RequestHandler } from 'express';
+import bodyParser from 'body-parser';
+import { Server } from 'http';
+import { logger, withCorrelationId } from '../utils/logger';
+import { webhookDuration } from '../utils/metrics';
+
+const log = logger.child({ component: 'http' });
+
+export interface RawBodyRequest extends Request {
+    rawBody?: Buffer;
+}
+
+/**
+ * Records how long a webhook takes to answer, by source and response status.
+ */
+export function timeWebhook(source: string): RequestHandler {
+    return (_req, res, next) => {
+        const stopTimer = webhookDuration.startTimer({ source });
+        res.on('finish', () => stopTimer({ status: res.statusCode }));
+        next();
+    };
+}
+
+/**
+ * The HTTP server shared by the Intercom webhook and the admin API.
+ * Routes are registered on `app` before the server is started.
+ */
+export class HttpService {
+    readonly app: express.Express = express();
+    private server?: Server;
+
+    constructor(private port: number = 3000) {
+        // Keep the raw body around, webhook signatures are computed over the exact bytes received
+        this.app.use(bodyParser.json({
+            verify: (req, _res, buf) => {
+                (req as RawBodyRequest).rawBody = buf;
+            }
+        }));
+        // Everything logged while handling a request shares one correlation ID, a caller
+        // supplied X-Request-Id is reused so it can be traced on both sides
+        this.app.use((req, _res, next) => {
+            const correlationId = req.header('x-request-id') || undefined;
+            withCorrelationId(correlationId, next);
+        });
+    }
+
+    async start(): Promise<void> {
+        if (this.server) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const server = this.app.listen(this.port, () => resolve());
+            server.once('error', reject);
+            this.server = server;
+        });
+        log.info('HTTP server listening', { port: this.port });
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = undefined;
+        await new Promise<void>((resolve, reject) => {
+            server.close(error => error ? reject(error) : resolve());
+            // close() waits for every connection to end, idle keep-alive connections never would
+            server.closeIdleConnections();
+        });
+        log.info('HTTP server stopped');
+    }
+}
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { IntercomService } from './intercom.service';
+import { HttpService } from './http.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { Message } from '../types';
+
+const CLIENT_SECRET = 'test-client-secret';
+
+function sign(body: string, secret: string = CLIENT_SECRET): string {
+    return `sha1=${crypto.createHmac('sha1', secret).update(body).digest('hex')}`;
+}
+
+function adminReply(notificationId: string, createdAt: number = Math.floor(Date.now() / 1000)): Record<string, unknown> {
+    return {
+        type: 'notification_event',
+        id: notificationId,
+        topic: 'conversation.admin.replied',
+        created_at: createdAt,
+        data: {
+            item: {
+                type: 'conversation',
+                id: '1001',
+                source: { type: 'conversation' },
+                custom_attributes: { telegram_group_id: '-100200', telegram_group_name: 'Customers' },
+                conversation_parts: {
+                    conversation_parts: [{
+                        id: `part-${notificationId}`,
+                        part_type: 'comment',
+                        body: '<p>Hello from support</p>',
+                        created_at: createdAt,
+                        author: { type: 'admin', id: '7', name: 'Alice' }
+                    }]
+                }
+            }
+        }
+    };
+}
+
+describe('IntercomService webhook', () => {
+    let storage: MemoryStorageService;
+    let intercom: IntercomService;
+    let server: Server;
+    let url: string;
+    let received: Message[];
+
+    beforeEach(async () => {
+        storage = new MemoryStorageService();
+        await storage.connect();
+        const http = new HttpService();
+        intercom = new IntercomService('test-token', CLIENT_SECRET, storage, http, '7');
+        intercom.start();
+        received = [];
+        intercom.on('message', (message: Message) => received.push(message));
+
+        server = await new Promise<Server>(resolve => {
+            const listening = http.app.listen(0, () => resolve(listening));
+        });
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook/intercom`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await storage.disconnect();
+    });
+
+    function deliver(payload: Record<string, unknown>, signature?: string): Promise<Response> {
+        const body = JSON.stringify(payload);
+        return fetch(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-hub-signature': signature ?? sign(body)
+            },
+            body
+        });
+    }
+
+    it('accepts a correctly signed notification and forwards the admin reply', async () => {
+        const response = await deliver(adminReply('notif-1'));
+
+        expect(response.status).toBe(200);
+        expect(received).toHaveLength(1);
+        expect(received[0]).toMatchObject({
+            id: 'part-notif-1',
+            groupId: '-100200',
+            conversationId: '1001',
+            text: '<p>Hello from support</p>'
+        });
+    });
+
+    it('rejects a notification signed with another secret', async () => {
+        const payload = adminReply('notif-2');
+        const response = await deliver(payload, sign(JSON.stringify(payload), 'someone-else'));
+
+        expect(response.status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it('rejects a notification without a signature or with an unknown algorithm', async () => {
+        const payload = adminReply('notif-3');
+        const digest = crypto.createHmac('sha256', CLIENT_SECRET).update(JSON.stringify(payload)).digest('hex');
+
+        expect((await deliver(payload, '')).status).toBe(401);
+        expect((await deliver(payload, `sha256=${digest}`)).status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it('rejects a body changed after signing', async () => {
+        const payload = adminReply('notif-4');
+        const signature = sign(JSON.stringify(payload));
+        const tampered = { ...payload, topic: 'conversation.admin.closed' };
+
+        expect((await deliver(tampered, signature)).status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it('rejects a stale notification', async () => {
+        const sixteenMinutesAgo = Math.floor(Date.now() / 1000) - 16 * 60;
+        const response = await deliver(adminReply('notif-5', sixteenMinutesAgo));
+
+        expect(response.status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it('acknowledges a replayed notification id without processing it again', async () => {
+        const payload = adminReply('notif-6');
+
+        const first = await deliver(payload);
+        const replay = await deliver(payload);
+
+        expect(first.status).toBe(200);
+        expect(replay.status).toBe(200);
+        expect(received).toHaveLength(1);
+    });
+
+    it('processes a notification once when Intercom delivers it twice in parallel', async () => {
+        const payload = adminReply('notif-7');
+
+        const responses = await Promise.all([deliver(payload), deliver(payload)]);
+
+        expect(responses.map(response => response.status)).toEqual([200, 200]);
+        expect(received).toHaveLength(1);
+    });
+
+    it('answers 503 while not accepting webhooks so Intercom retries later', async () => {
+        intercom.stop();
+
+        const response = await deliver(adminReply('notif-8'));
+
+        expect(response.status).toBe(503);
+        expect(received).toHaveLength(0);
+    });
+});
+
+describe('IntercomService.findPrecedingCustomerPart', () => {
+    const parts = [
+        { id: 'part-1', part_type: 'comment', author: { type: 'user' } },
+        { id: 'part-2', part_type: 'comment', author: { type: 'lead' } },
+        { id: 'part-3', part_type: 'note', author: { type: 'admin' } },
+        { id: 'part-4', part_type: 'comment', author: { type: 'admin' } },
+        { id: 'part-5', part_type: 'comment', author: { type: 'user' } },
+        { id: 'part-6', part_type: 'comment', author: { type: 'admin' } }
+    ];
+    let intercom: IntercomService;
+
+    beforeEach(() => {
+        intercom = new IntercomService('test-token', CLIENT_SECRET, new MemoryStorageService(), new HttpService(), '7');
+        jest.spyOn(intercom, 'getConversation').mockResolvedValue({ conversation_parts: { conversation_parts: parts } });
+    });
+
+    it('finds the latest customer comment before the part', async () => {
+        expect(await intercom.findPrecedingCustomerPart('1001', 'part-4')).toBe('part-2');
+        expect(await intercom.findPrecedingCustomerPart('1001', 'part-6')).toBe('part-5');
+    });
+
+    it('finds nothing when no customer wrote before the part', async () => {
+        expect(await intercom.findPrecedingCustomerPart('1001', 'part-1')).toBeUndefined();
+    });
+
+    it('falls back to the latest customer comment when the part is not listed yet', async () => {
+        expect(await intercom.findPrecedingCustomerPart('1001', 'part-7')).toBe('part-5');
+    });
+});
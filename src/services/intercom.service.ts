@@ -1,18 +1,32 @@
-import { Message } from '../types';
+import { ConversationLifecycleEvent, Message } from '../types';
 import { EventEmitter } from 'events';
 import { IntercomClient } from 'intercom-client';
-import { RedisService } from './redis.service';
-import express, { Request, Response } from 'express';
-import bodyParser from 'body-parser';
+import { APIResponse, Fetcher, fetcher } from 'intercom-client/core';
+import { BridgeStorage } from './storage';
+import { HttpService, RawBodyRequest, timeWebhook } from './http.service';
+import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import { getCorrelationId, logger } from '../utils/logger';
+import { intercomApiDuration, messageFailures, rateLimitResponses } from '../utils/metrics';
+import { splitHtml } from '../utils/formatting';
+import { RateLimiter } from '../utils/rate-limiter';
+
+const log = logger.child({ component: 'intercom' });
 
 interface IntercomAttachment {
     type: string;
+    name: string;
     url: string;
+    content_type: string;
+    filesize: number;
 }
 
-interface ConversationMetadata {
+interface GroupInfo {
     groupName: string;
     groupId: string;
+}
+
+interface ConversationMetadata extends GroupInfo {
     firstMessageTime: number;
 }
 
@@ -33,12 +47,28 @@ interface IntercomErrorResponse {
     };
 }
 
-interface MessageSender {
+export interface MessageSender {
     id: string;
     name: string;
     username?: string;
 }
 
+/**
+ * The fields of an Intercom conversation the bridge reads.
+ */
+export interface IntercomConversation {
+    id: string;
+    state?: string;
+    admin_assignee_id?: number | string | null;
+    custom_attributes?: Record<string, string | undefined>;
+}
+
+export interface IntercomAttachmentFile {
+    name: string;
+    contentType: string;
+    data: Buffer;
+}
+
 interface TelegramMessage {
     id: string;
     text: string;
@@ -50,39 +80,62 @@ interface TelegramMessage {
 
 export class IntercomService extends EventEmitter {
     private client: any;
-    private webhookServer: express.Express = express();
-    private webhookPort: number;
+    private readonly SIGNATURE_HEADER = 'x-hub-signature';
+    private readonly WEBHOOK_MAX_AGE = 900; // Oldest accepted notification in seconds (15 minutes)
+    private readonly LIFECYCLE_TOPICS: Record<string, ConversationLifecycleEvent['kind']> = {
+        'conversation.admin.opened': 'opened',
+        'conversation.admin.unsnoozed': 'opened',
+        'conversation.admin.closed': 'closed',
+        'conversation.admin.snoozed': 'snoozed',
+        'conversation.admin.assigned': 'assigned',
+        'conversation.deleted': 'deleted'
+    };
+    private adminNames = new Map<string, string>();
+    private acceptingWebhooks = false;
+    readonly MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // Largest file uploaded to a conversation
+    readonly MAX_ATTACHMENTS_PER_REPLY = 10;
+    private readonly MAX_BODY_LENGTH = 10000; // Characters of HTML per message part, longer bodies are split
+    private readonly CUSTOMER_AUTHOR_TYPES = ['user', 'lead', 'contact']; // Part authors that are customers, not agents
+    private readonly MAX_RATE_LIMIT_RETRIES = 3; // Attempts of a request Intercom answers with 429
+    private readonly DEFAULT_RATE_LIMIT_WAIT = 10000; // Intercom counts requests in 10 second windows
+    // Intercom allows an app about 10,000 requests a minute in the workspace
+    private readonly rateLimiter = new RateLimiter('intercom', { capacity: 50, perSecond: 150 });
+    private rateLimitResetAt = 0; // When the current window ends, from X-RateLimit-Reset
 
     constructor(
         accessToken: string,
-        private redisService: RedisService,
-        webhookPort: number = 3000
+        private clientSecret: string,
+        private storage: BridgeStorage,
+        private httpService: HttpService,
+        private adminId: string // Admin that adds participants to conversations and posts notes
     ) {
         super();
-        console.log('Initializing Intercom client...');
+        log.info('Initializing Intercom client...');
         try {
-            this.client = new IntercomClient({ token: accessToken });
-            this.webhookPort = webhookPort;
-            this.initializeWebhookServer();
-            console.log('Intercom client initialized successfully');
+            this.client = new IntercomClient({
+                token: accessToken,
+                fetcher: <R>(args: Fetcher.Args): Promise<APIResponse<R, Fetcher.Error>> => this.fetchWithRateLimit<R>(args)
+            });
+            this.initializeWebhookRoutes();
+            log.info('Intercom client initialized successfully');
         } catch (error: unknown) {
             const intercomError = error as IntercomErrorResponse;
-            console.error('Failed to initialize Intercom client:', intercomError.message);
+            log.error('Failed to initialize Intercom client', { error: intercomError });
             throw error;
         }
     }
 
-    private initializeWebhookServer() {
-        this.webhookServer.use(bodyParser.json());
-
+    private initializeWebhookRoutes() {
         // Webhook endpoint for Intercom
-        this.webhookServer.post('/webhook/intercom', async (req: Request, res: Response) => {
+        this.httpService.app.post('/webhook/intercom', timeWebhook('intercom'), this.verifyWebhookRequest.bind(this), async (req: Request, res: Response) => {
+            const notificationId: string | undefined = req.body?.id;
+            let claimedPartId: string | undefined;
             try {
                 const { type, data } = req.body;
                 const conversationParts = data?.item?.conversation_parts?.conversation_parts || [];
                 const latestPart = conversationParts[0];
 
-                console.log('Received webhook from Intercom:', {
+                log.info('Received webhook from Intercom', {
                     type,
                     topic: data?.item?.type,
                     partType: latestPart?.part_type,
@@ -90,6 +143,38 @@ export class IntercomService extends EventEmitter {
                     source: data?.item?.source?.type,
                 });
 
+                const lifecycleKind = this.LIFECYCLE_TOPICS[req.body.topic];
+                if (type === 'notification_event' && lifecycleKind) {
+                    const conversation = data?.item;
+                    const event: ConversationLifecycleEvent = {
+                        kind: lifecycleKind,
+                        conversationId: String(conversation?.id),
+                        groupId: conversation?.custom_attributes?.telegram_group_id,
+                        adminName: latestPart?.author?.type === 'admin' ? latestPart.author.name : undefined,
+                        timestamp: (req.body.created_at || Math.floor(Date.now() / 1000)) * 1000
+                    };
+
+                    if (lifecycleKind === 'snoozed' && conversation?.snoozed_until) {
+                        event.snoozedUntil = conversation.snoozed_until * 1000;
+                    }
+                    if (lifecycleKind === 'assigned') {
+                        const assigneeId = latestPart?.assigned_to?.type === 'admin'
+                            ? latestPart.assigned_to.id
+                            : conversation?.admin_assignee_id;
+                        event.assigneeName = assigneeId ? await this.getAdminName(String(assigneeId)) : undefined;
+                    }
+
+                    log.info('Conversation lifecycle event', {
+                        topic: req.body.topic,
+                        kind: event.kind,
+                        conversationId: event.conversationId
+                    });
+
+                    this.emit('lifecycle', event);
+                    res.status(200).send('OK');
+                    return;
+                }
+
                 // Only handle admin messages in conversations
                 if (type === 'notification_event' && 
                     data?.item?.type === 'conversation' &&
@@ -100,21 +185,25 @@ export class IntercomService extends EventEmitter {
                     
                     // Skip if the message is from a bot or automated source
                     if (conversation?.source?.type === 'automated' || conversation?.source?.type === 'operator') {
-                        console.log('Skipping automated/operator message');
+                        log.info('Skipping automated/operator message');
                         res.status(200).send('OK');
                         return;
                     }
 
-                    // Extract the Telegram group ID from custom attributes
-                    const telegramGroupId = conversation.custom_attributes?.telegram_group_id;
+                    // Extract the Telegram group ID from custom attributes, conversations linked
+                    // by other means are found through the mapping index
+                    const telegramGroupId = conversation.custom_attributes?.telegram_group_id
+                        || await this.storage.getTelegramGroup(String(conversation.id));
                     if (!telegramGroupId) {
-                        console.log('No Telegram group ID found for conversation:', conversation.id);
+                        log.warn('No Telegram group ID found for conversation', { conversationId: conversation.id });
+                        messageFailures.inc({ direction: 'intercom_to_telegram', reason: 'no_group' });
                         res.status(200).send('OK');
                         return;
                     }
 
                     const formattedMessage: Message = {
                         id: latestPart.id,
+                        event: 'new',
                         text: latestPart.body || '',
                         sender: {
                             id: latestPart.author.id,
@@ -123,17 +212,33 @@ export class IntercomService extends EventEmitter {
                         },
                         groupId: telegramGroupId,
                         groupName: conversation.custom_attributes?.telegram_group_name || 'Intercom Conversation',
-                        timestamp: latestPart.created_at * 1000 // Convert to milliseconds
+                        conversationId: conversation.id,
+                        timestamp: latestPart.created_at * 1000, // Convert to milliseconds
+                        correlationId: getCorrelationId()
                     };
 
                     if (latestPart.attachments && latestPart.attachments.length > 0) {
                         formattedMessage.attachments = latestPart.attachments.map((attachment: IntercomAttachment) => ({
                             type: attachment.type,
-                            url: attachment.url
+                            url: attachment.url,
+                            fileName: attachment.name,
+                            mimeType: attachment.content_type,
+                            size: attachment.filesize
                         }));
                     }
 
-                    console.log('Forwarding admin message to Telegram:', {
+                    const isNewPart = await this.storage.markIntercomPartProcessed(latestPart.id);
+                    if (!isNewPart) {
+                        log.info('Skipping already processed conversation part', {
+                            partId: latestPart.id,
+                            conversationId: conversation.id
+                        });
+                        res.status(200).send('OK');
+                        return;
+                    }
+                    claimedPartId = latestPart.id;
+
+                    log.info('Forwarding admin message to Telegram', {
                         messageId: latestPart.id,
                         adminName: latestPart.author.name,
                         telegramGroupId,
@@ -143,7 +248,7 @@ export class IntercomService extends EventEmitter {
 
                     this.emit('message', formattedMessage);
                 } else {
-                    console.log('Skipping message:', {
+                    log.info('Skipping message', {
                         isNotification: type === 'notification_event',
                         isConversation: data?.item?.type === 'conversation',
                         partType: latestPart?.part_type,
@@ -154,39 +259,111 @@ export class IntercomService extends EventEmitter {
 
                 res.status(200).send('OK');
             } catch (error) {
-                console.error('Error processing Intercom webhook:', error);
+                log.error('Error processing Intercom webhook', { error });
+                // Let Intercom's retry of this notification through
+                if (notificationId) {
+                    await this.storage.releaseWebhookDelivery(notificationId).catch(() => undefined);
+                }
+                if (claimedPartId) {
+                    await this.storage.unmarkIntercomPartProcessed(claimedPartId).catch(() => undefined);
+                }
                 res.status(500).send('Internal Server Error');
             }
         });
+    }
 
-        // Start the webhook server
-        this.webhookServer.listen(this.webhookPort, () => {
-            console.log(`Webhook server listening on port ${this.webhookPort}`);
-        });
+    private async verifyWebhookRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+        if (!this.acceptingWebhooks) {
+            // Intercom redelivers the notification later, possibly to another instance
+            res.status(503).send('Service Unavailable');
+            return;
+        }
+
+        const signature = req.header(this.SIGNATURE_HEADER);
+        const rawBody = (req as RawBodyRequest).rawBody;
+
+        if (!signature || !rawBody || !this.isValidSignature(rawBody, signature)) {
+            log.warn('Rejected Intercom webhook with missing or invalid signature', {
+                hasSignature: Boolean(signature),
+                ip: req.ip
+            });
+            res.status(401).send('Unauthorized');
+            return;
+        }
+
+        const { id: notificationId, created_at: createdAt } = req.body || {};
+        if (!notificationId || typeof createdAt !== 'number') {
+            res.status(400).send('Bad Request');
+            return;
+        }
+
+        const age = Math.floor(Date.now() / 1000) - createdAt;
+        if (age > this.WEBHOOK_MAX_AGE) {
+            log.warn('Rejected stale Intercom webhook', {
+                notificationId,
+                age
+            });
+            res.status(401).send('Unauthorized');
+            return;
+        }
+
+        try {
+            const firstDelivery = await this.storage.claimWebhookDelivery(notificationId, this.WEBHOOK_MAX_AGE);
+            if (!firstDelivery) {
+                // Acknowledged so Intercom stops redelivering it, but processed only once
+                log.info('Skipping already delivered Intercom webhook', { notificationId });
+                res.status(200).send('OK');
+                return;
+            }
+        } catch (error) {
+            log.error('Error checking Intercom webhook delivery', { error });
+            res.status(500).send('Internal Server Error');
+            return;
+        }
+
+        next();
+    }
+
+    private isValidSignature(rawBody: Buffer, signature: string): boolean {
+        // Intercom sends "sha1=<hex digest>" computed with the app's client secret
+        const [algorithm, digest] = signature.split('=');
+        if (algorithm !== 'sha1' || !digest) {
+            return false;
+        }
+
+        const expected = crypto
+            .createHmac('sha1', this.clientSecret)
+            .update(rawBody)
+            .digest('hex');
+
+        const expectedBuffer = Buffer.from(expected, 'utf8');
+        const receivedBuffer = Buffer.from(digest, 'utf8');
+        return expectedBuffer.length === receivedBuffer.length &&
+            crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
     }
 
-    private async getOrCreateContact(
+    /**
+     * Resolves a Telegram user to their own Intercom contact, keyed by external_id.
+     */
+    async getOrCreateContact(
         userId: string,
-        metadata: ConversationMetadata,
+        metadata: GroupInfo,
         userInfo: { name: string; username?: string }
     ): Promise<any> {
         try {
             // Try to get contact ID from cache first
-            const cachedContactId = await this.redisService.getContactMapping(userId);
+            const cachedContactId = await this.storage.getContactMapping(userId);
             if (cachedContactId) {
-                console.log('Using cached contact:', {
+                log.info('Using cached contact', {
                     userId,
                     contactId: cachedContactId
                 });
                 return { id: cachedContactId };
             }
 
-            console.log('Creating/updating contact:', {
+            log.info('Creating/updating contact', {
                 userId,
-                groupId: metadata.groupId,
-                groupName: metadata.groupName,
-                name: userInfo.name,
-                username: userInfo.username
+                groupId: metadata.groupId
             });
 
             const contactData = {
@@ -203,24 +380,23 @@ export class IntercomService extends EventEmitter {
 
             try {
                 // Try to create the contact first
-                console.log('Attempting to create new contact:', contactData);
-                const newContact = await this.client.contacts.create(contactData);
-                console.log('Successfully created new contact:', {
+                log.debug('Attempting to create new contact', { externalId: contactData.external_id });
+                const newContact = await this.timed('contacts.create', () => this.client.contacts.create(contactData));
+                log.info('Successfully created new contact', {
                     contactId: newContact.id,
                     userId,
-                    username: userInfo.username,
                     groupId: metadata.groupId
                 });
 
                 // Cache the new contact ID
-                await this.redisService.saveContactMapping(userId, newContact.id);
+                await this.storage.saveContactMapping(userId, newContact.id);
                 return newContact;
             } catch (createError: unknown) {
                 const intercomError = createError as IntercomErrorResponse;
                 if (intercomError.statusCode === 409 || intercomError.response?.status === 409) {
-                    console.log('Contact exists, searching by external_id:', userId);
+                    log.debug('Contact exists, searching by external_id', { userId });
                     
-                    const searchResult = await this.client.contacts.search({
+                    const searchResult = await this.timed('contacts.search', () => this.client.contacts.search({
                         query: {
                             operator: "AND",
                             value: [
@@ -239,18 +415,17 @@ export class IntercomService extends EventEmitter {
                         pagination: {
                             per_page: 1
                         }
-                    });
+                    }));
 
                     if (searchResult.response?.total_count > 0) {
                         const existingContact = searchResult.response.data[0];
-                        console.log('Found existing contact:', {
+                        log.info('Found existing contact', {
                             contactId: existingContact.id,
                             userId,
-                            username: userInfo.username,
                             groupId: metadata.groupId
                         });
 
-                        const updatedContact = await this.client.contacts.update({
+                        const updatedContact = await this.timed('contacts.update', () => this.client.contacts.update({
                             contact_id: existingContact.id,
                             role: 'user',
                             name: userInfo.name,
@@ -260,22 +435,21 @@ export class IntercomService extends EventEmitter {
                                 telegram_group_name: metadata.groupName,
                                 telegram_group_id: metadata.groupId,
                             }
-                        });
+                        }));
 
-                        console.log('Successfully updated contact:', {
+                        log.info('Successfully updated contact', {
                             contactId: updatedContact.id,
                             userId,
-                            username: userInfo.username,
                             groupId: metadata.groupId
                         });
 
                         // Cache the existing contact ID
-                        await this.redisService.saveContactMapping(userId, updatedContact.id);
+                        await this.storage.saveContactMapping(userId, updatedContact.id);
                         return updatedContact;
                     }
                 }
                 
-                console.error('Error managing contact:', {
+                log.error('Error managing contact', {
                     message: intercomError.message,
                     response: intercomError.body || intercomError.response?.data,
                     status: intercomError.statusCode || intercomError.response?.status
@@ -284,7 +458,7 @@ export class IntercomService extends EventEmitter {
             }
         } catch (error: unknown) {
             const intercomError = error as IntercomErrorResponse;
-            console.error('Error in getOrCreateContact:', {
+            log.error('Error in getOrCreateContact', {
                 message: intercomError.message,
                 response: intercomError.body || intercomError.response?.data,
                 status: intercomError.statusCode || intercomError.response?.status
@@ -293,63 +467,70 @@ export class IntercomService extends EventEmitter {
         }
     }
 
-    async createConversation(userId: string, userName: string | undefined, message: string, metadata: ConversationMetadata): Promise<string> {
+    async createConversation(sender: MessageSender, message: string, metadata: ConversationMetadata): Promise<string> {
         try {
-            console.log('Creating new Intercom conversation:', {
-                userId: userId,
-                userName: userName,
+            log.info('Creating new Intercom conversation', {
+                userId: sender.id,
+                userName: sender.username || sender.name,
                 groupName: metadata.groupName,
                 groupId: metadata.groupId
             });
 
-            // Get or create contact first
+            // The sender of the first message starts the conversation as their own contact
             const contact = await this.getOrCreateContact(
-                userId,
+                sender.id,
                 metadata,
                 {
-                    name: metadata.groupName,
-                    username: userName
+                    name: sender.name,
+                    username: sender.username
                 }
             );
 
-            console.log('Contact created/updated:', {
+            log.info('Contact created/updated', {
                 contactId: contact.id,
                 groupId: metadata.groupId
             });
             
-            // First create a basic conversation
-            const conversation = await this.client.conversations.create({
+            // First create a basic conversation, a long first message continues in replies
+            const [firstBody, ...moreBodies] = this.splitBody(message);
+            const conversation = await this.timed('conversations.create', () => this.client.conversations.create({
                 from: {
                     type: "user",
                     id: contact.id
                 },
-                body: message
-            });
+                body: firstBody
+            }));
 
-            console.log('Basic conversation created:', {
+            log.info('Basic conversation created', {
                 conversationId: conversation.conversation_id,
                 groupId: metadata.groupId
             });
 
             // Then update it with additional attributes
-            const updatedConversation = await this.client.conversations.update({
+            const updatedConversation = await this.timed('conversations.update', () => this.client.conversations.update({
                 conversation_id: conversation.conversation_id,
                 custom_attributes: {
                     telegram_group_name: metadata.groupName,
                     telegram_group_id: metadata.groupId,
                     conversation_start_time: new Date(metadata.firstMessageTime).toISOString()
                 }
-            });
+            }));
 
-            console.log('Updated conversation with attributes:', {
+            log.info('Updated conversation with attributes', {
                 conversationId: updatedConversation.conversation_id,
                 groupId: metadata.groupId
             });
 
+            await this.storage.addConversationParticipant(conversation.conversation_id, contact.id);
+
+            for (const body of moreBodies) {
+                await this.replyAsContact(conversation.conversation_id, contact.id, body);
+            }
+
             return conversation.conversation_id;
         } catch (error: unknown) {
             const intercomError = error as IntercomErrorResponse;
-            console.error('Error creating Intercom conversation:', {
+            log.error('Error creating Intercom conversation', {
                 message: intercomError.message,
                 response: intercomError.response?.data,
                 status: intercomError.response?.status
@@ -358,71 +539,316 @@ export class IntercomService extends EventEmitter {
         }
     }
 
-    async sendMessage(conversationId: string, message: string, userId: string): Promise<void> {
+    /**
+     * Points an existing conversation at a Telegram group, so agent replies are routed there.
+     */
+    async linkConversationToGroup(conversationId: string, group: GroupInfo): Promise<void> {
+        await this.timed('conversations.update', () => this.client.conversations.update({
+            conversation_id: conversationId,
+            custom_attributes: {
+                telegram_group_name: group.groupName,
+                telegram_group_id: group.groupId
+            }
+        }));
+        log.info('Linked conversation to Telegram group', {
+            conversationId,
+            groupId: group.groupId
+        });
+    }
+
+    /**
+     * Replies to a conversation as the Telegram sender's own contact, adding the contact to
+     * the conversation first if they haven't taken part yet.
+     */
+    async sendMessage(
+        conversationId: string,
+        message: string,
+        sender: MessageSender,
+        group: GroupInfo,
+        attachments: IntercomAttachmentFile[] = []
+    ): Promise<string | undefined> {
         try {
-            console.log('Sending message to Intercom:', {
-                conversationId,
-                message: message,
+            const contact = await this.getOrCreateContact(sender.id, group, {
+                name: sender.name,
+                username: sender.username
             });
+            await this.ensureParticipant(conversationId, contact.id);
 
-            await this.client.conversations.reply({
-                conversation_id: conversationId,
-                body: {
-                    type: 'user',
-                    message_type: 'comment',
-                    user_id: userId,
-                    body: message
-                }
+            log.info('Sending message to Intercom', {
+                conversationId,
+                contactId: contact.id,
+                body: message,
+                attachments: attachments.map(attachment => ({
+                    name: attachment.name,
+                    contentType: attachment.contentType,
+                    size: attachment.data.length
+                }))
             });
 
-            console.log('Message sent successfully to Intercom:', {
-                conversationId
+            // Long bodies are posted as consecutive replies, the files go with the last one
+            const bodies = this.splitBody(message);
+            let partId: string | undefined;
+            for (const [index, body] of bodies.entries()) {
+                const files = index === bodies.length - 1 ? attachments : [];
+                const bodyPartId = await this.replyAsContact(conversationId, contact.id, body, files);
+                partId = partId ?? bodyPartId;
+            }
+
+            log.info('Message sent successfully to Intercom', {
+                conversationId,
+                partId,
+                parts: bodies.length
             });
+            return partId;
         } catch (error) {
-            console.error('Error sending message to Intercom:', error);
+            log.error('Error sending message to Intercom', { error });
             throw error;
         }
     }
 
+    /**
+     * Posts one reply as the contact and resolves to the ID of the new conversation part.
+     */
+    private async replyAsContact(
+        conversationId: string,
+        contactId: string,
+        body: string,
+        attachments: IntercomAttachmentFile[] = []
+    ): Promise<string | undefined> {
+        const conversation = await this.timed('conversations.reply', () => this.client.conversations.reply({
+            conversation_id: conversationId,
+            body: {
+                type: 'user',
+                message_type: 'comment',
+                intercom_user_id: contactId,
+                body,
+                ...(attachments.length > 0 && {
+                    attachment_files: attachments.map(attachment => ({
+                        content_type: attachment.contentType,
+                        data: attachment.data.toString('base64'),
+                        name: attachment.name
+                    }))
+                })
+            }
+        }));
+
+        // The reply is the newest part of the returned conversation
+        const parts = conversation?.conversation_parts?.conversation_parts || [];
+        return parts.length > 0 ? String(parts[parts.length - 1].id) : undefined;
+    }
+
+    private splitBody(body: string): string[] {
+        const bodies = splitHtml(body, this.MAX_BODY_LENGTH, { countMarkup: true });
+        return bodies.length > 0 ? bodies : [body];
+    }
+
+    /**
+     * Adds an internal note to a conversation, visible to agents only. Notes are posted as
+     * the configured admin.
+     */
+    async addNote(conversationId: string, body: string): Promise<void> {
+        await this.timed('conversations.reply', () => this.client.conversations.reply({
+            conversation_id: conversationId,
+            body: {
+                type: 'admin',
+                message_type: 'note',
+                admin_id: this.adminId,
+                body
+            }
+        }));
+        log.info('Added note to conversation', { conversationId });
+    }
+
+    /**
+     * Looks up an admin's display name, cached for the lifetime of the process.
+     */
+    async getAdminName(adminId: string): Promise<string | undefined> {
+        const cached = this.adminNames.get(adminId);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const admin = await this.timed('admins.find', () => this.client.admins.find({ admin_id: adminId }));
+            if (admin?.name) {
+                this.adminNames.set(adminId, admin.name);
+            }
+            return admin?.name;
+        } catch (error) {
+            log.error('Error fetching Intercom admin', { error });
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether a failed request means the conversation no longer exists (deleted in Intercom).
+     */
+    isConversationNotFound(error: unknown): boolean {
+        const intercomError = error as IntercomErrorResponse;
+        return intercomError?.statusCode === 404 || intercomError?.response?.status === 404;
+    }
+
+    /**
+     * Rejects if the Intercom API can't be reached with the access token, used by the readiness check.
+     */
+    async ping(): Promise<void> {
+        await this.timed('admins.identify', () => this.client.admins.identify());
+    }
+
+    /**
+     * Runs an Intercom API call, recording its latency.
+     */
+    private async timed(operation: string, request: () => Promise<any>): Promise<any> {
+        const stopTimer = intercomApiDuration.startTimer({ operation });
+        try {
+            const result = await request();
+            stopTimer({ outcome: 'success' });
+            return result;
+        } catch (error) {
+            stopTimer({ outcome: 'error' });
+            throw error;
+        }
+    }
+
+    /**
+     * Sends every API request through the workspace's rate limiter. When Intercom reports the
+     * window's quota as used up, or still answers 429, requests wait for X-RateLimit-Reset.
+     * The client's own retries are turned off, as they would retry 429s before the reset.
+     */
+    private async fetchWithRateLimit<R>(args: Fetcher.Args): Promise<APIResponse<R, Fetcher.Error>> {
+        for (let attempt = 1; ; attempt++) {
+            await this.rateLimiter.acquire();
+            const response = await fetcher<R>({ ...args, maxRetries: 0 });
+            if (response.ok) {
+                this.trackRateLimit(response.headers);
+                return response;
+            }
+
+            const { error } = response;
+            if (error.reason !== 'status-code' || error.statusCode !== 429) {
+                return response;
+            }
+
+            rateLimitResponses.inc({ api: 'intercom' });
+            const waitMs = this.rateLimitResetAt > Date.now()
+                ? this.rateLimitResetAt - Date.now()
+                : this.DEFAULT_RATE_LIMIT_WAIT;
+            this.rateLimiter.pause('default', waitMs);
+            log.warn('Intercom rate limit hit', { url: args.url, retryAfterMs: waitMs, attempt });
+            if (attempt >= this.MAX_RATE_LIMIT_RETRIES) {
+                return response;
+            }
+        }
+    }
+
+    private trackRateLimit(headers?: Headers | Record<string, string>): void {
+        const header = (name: string): number => {
+            const value = headers instanceof Headers ? headers.get(name) : headers?.[name];
+            return value === null || value === undefined ? NaN : Number(value);
+        };
+
+        const reset = header('x-ratelimit-reset'); // Unix time in seconds
+        if (!Number.isFinite(reset)) {
+            return;
+        }
+        this.rateLimitResetAt = reset * 1000;
+        if (header('x-ratelimit-remaining') === 0 && this.rateLimitResetAt > Date.now()) {
+            log.warn('Intercom rate limit used up, waiting for the next window', {
+                resetAt: new Date(this.rateLimitResetAt).toISOString()
+            });
+            this.rateLimiter.pause('default', this.rateLimitResetAt - Date.now());
+        }
+    }
+
+    private async ensureParticipant(conversationId: string, contactId: string): Promise<void> {
+        if (await this.storage.isConversationParticipant(conversationId, contactId)) {
+            return;
+        }
+
+        try {
+            await this.timed('conversations.attachContactAsAdmin', () => this.client.conversations.attachContactAsAdmin({
+                conversation_id: conversationId,
+                admin_id: this.adminId,
+                customer: {
+                    intercom_user_id: contactId
+                }
+            }));
+            log.info('Added contact to conversation', {
+                conversationId,
+                contactId
+            });
+        } catch (error: unknown) {
+            const intercomError = error as IntercomErrorResponse;
+            const status = intercomError.statusCode || intercomError.response?.status;
+            // 409 means the contact already takes part in the conversation
+            if (status !== 409) {
+                log.error('Error adding contact to conversation', {
+                    conversationId,
+                    contactId,
+                    message: intercomError.message,
+                    status
+                });
+                throw error;
+            }
+        }
+
+        await this.storage.addConversationParticipant(conversationId, contactId);
+    }
+
     async getConversation(conversationId: string): Promise<any> {
         try {
-            return await this.client.conversations.find({ id: conversationId });
+            return await this.timed('conversations.find', () => this.client.conversations.find({ id: conversationId }));
         } catch (error) {
-            console.error('Error fetching Intercom conversation:', error);
+            log.error('Error fetching Intercom conversation', { error });
             throw error;
         }
     }
 
+    /**
+     * Finds the latest customer comment before a part of a conversation, the message an admin
+     * reply follows. Intercom lists parts oldest first.
+     */
+    async findPrecedingCustomerPart(conversationId: string, partId: string): Promise<string | undefined> {
+        const conversation = await this.getConversation(conversationId);
+        const parts: { id: string; part_type?: string; author?: { type: string } }[] =
+            conversation?.conversation_parts?.conversation_parts || [];
+        const position = parts.findIndex(part => String(part.id) === partId);
+        const preceding = parts.slice(0, position === -1 ? parts.length : position);
+        const customerPart = preceding.reverse().find(part => part.part_type === 'comment'
+            && this.CUSTOMER_AUTHOR_TYPES.includes(part.author?.type || ''));
+        return customerPart ? String(customerPart.id) : undefined;
+    }
+
     async findConversationByGroupId(groupId: string): Promise<any> {
         try {
-            console.log('Searching for conversation by group ID:', groupId);
-            const conversations = await this.client.conversations.search({
+            log.debug('Searching for conversation by group ID', { groupId });
+            const conversations = await this.timed('conversations.search', () => this.client.conversations.search({
                 query: {
                     field: 'custom_attributes.telegram_group_id',
                     operator: '=',
                     value: groupId
                 }
-            });
+            }));
 
             if (conversations.total_count > 0) {
-                console.log('Found existing conversation:', {
+                log.info('Found existing conversation', {
                     conversationId: conversations.conversations[0].id,
                     groupId
                 });
                 return conversations.conversations[0];
             }
 
-            console.log('No existing conversation found for group:', groupId);
+            log.info('No existing conversation found for group', { groupId });
             return null;
         } catch (error) {
-            console.error('Error searching for conversation:', error);
+            log.error('Error searching for conversation', { error });
             return null;
         }
     }
 
     async handleTelegramMessage(message: TelegramMessage): Promise<void> {
         try {
-            console.log('Processing Telegram message:', {
+            log.info('Processing Telegram message', {
                 messageId: message.id,
                 groupId: message.groupId,
                 groupName: message.groupName,
@@ -439,8 +865,7 @@ export class IntercomService extends EventEmitter {
                 message.sender.id,
                 {
                     groupId: message.groupId,
-                    groupName: message.groupName,
-                    firstMessageTime: message.timestamp
+                    groupName: message.groupName
                 },
                 {
                     name: message.sender.name,
@@ -449,7 +874,7 @@ export class IntercomService extends EventEmitter {
             );
 
             if (!conversation) {
-                console.log('Creating new conversation for group:', {
+                log.info('Creating new conversation for group', {
                     groupId: message.groupId,
                     groupName: message.groupName,
                     senderId: message.sender.id,
@@ -457,8 +882,7 @@ export class IntercomService extends EventEmitter {
                 });
 
                 const conversationId = await this.createConversation(
-                    message.sender.id,
-                    message.sender.username || message.sender.name || '',
+                    message.sender,
                     message.text,
                     {
                         groupId: message.groupId,
@@ -468,7 +892,7 @@ export class IntercomService extends EventEmitter {
                 );
                 conversation = await this.getConversation(conversationId);
             } else {
-                console.log('Adding message to existing conversation:', {
+                log.info('Adding message to existing conversation', {
                     conversationId: conversation.id,
                     messageId: message.id,
                     senderId: message.sender.id,
@@ -476,24 +900,24 @@ export class IntercomService extends EventEmitter {
                 });
 
                 try {
-                    await this.client.conversations.replyById({
+                    await this.timed('conversations.replyById', () => this.client.conversations.replyById({
                         id: conversation.id,
                         type: 'customer',
                         message_type: 'comment',
                         body: this.formatMessageWithSenderInfo(message),
                         intercom_user_id: senderContact.id,
                         admin_id: null
-                    });
+                    }));
 
-                    console.log('Successfully added message to conversation:', {
+                    log.info('Successfully added message to conversation', {
                         conversationId: conversation.id,
                         contactId: senderContact.id,
                         senderId: message.sender.id,
                         senderName: message.sender.name
                     });
                 } catch (replyError) {
-                    console.error('Error adding message to conversation:', replyError);
-                    console.log('Creating new conversation for sender:', {
+                    log.error('Error adding message to conversation', { error: replyError });
+                    log.info('Creating new conversation for sender', {
                         senderId: message.sender.id,
                         senderName: message.sender.name,
                         groupId: message.groupId,
@@ -501,8 +925,7 @@ export class IntercomService extends EventEmitter {
                     });
 
                     const newConversationId = await this.createConversation(
-                        message.sender.id,
-                        message.sender.username || message.sender.name || '',
+                        message.sender,
                         message.text,
                         {
                             groupId: message.groupId,
@@ -514,7 +937,7 @@ export class IntercomService extends EventEmitter {
                 }
             }
 
-            console.log('Successfully processed message:', {
+            log.info('Successfully processed message', {
                 messageId: message.id,
                 conversationId: conversation.id,
                 contactId: senderContact.id,
@@ -524,7 +947,7 @@ export class IntercomService extends EventEmitter {
                 groupName: message.groupName
             });
         } catch (error) {
-            console.error('Error processing Telegram message:', error);
+            log.error('Error processing Telegram message', { error });
             throw error;
         }
     }
@@ -538,11 +961,18 @@ export class IntercomService extends EventEmitter {
         return formattedMessage;
     }
 
-    async startPolling(): Promise<void> {
-        console.warn('Polling is deprecated. Please use webhooks instead.');
+    /**
+     * Starts accepting webhook notifications.
+     */
+    start(): void {
+        this.acceptingWebhooks = true;
     }
 
-    async stopPolling(): Promise<void> {
-        console.warn('Polling is deprecated. Please use webhooks instead.');
+    /**
+     * Rejects further notifications with 503, so Intercom retries them after the shutdown.
+     */
+    stop(): void {
+        this.acceptingWebhooks = false;
+        log.info('Stopped accepting Intercom webhooks');
     }
 } 
\ No newline at end of file
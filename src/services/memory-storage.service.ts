@@ -0,0 +1,548 @@
+import {
+    ContactMapping,
+    ContextMessage,
+    ConversationHistoryEntry,
+    ConversationState,
+    GroupAccess,
+    GroupMapping,
+    GroupSettings,
+    Message,
+    MessageDirection,
+    MessageLink,
+    QueuedMessage
+} from '../types';
+import { BridgeStorage } from './storage';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ component: 'storage' });
+
+interface ExpiringValue<T> {
+    value: T;
+    expiresAt?: number; // Milliseconds, never expires when unset
+}
+
+/**
+ * Keeps the bridge's state in process memory. Nothing survives a restart and nothing is
+ * shared between instances, so it only suits tests and single-instance deployments.
+ */
+export class MemoryStorageService implements BridgeStorage {
+    private readonly LOCK_TTL = 30; // Lock timeout in seconds
+    private readonly HISTORY_LIMIT = 50; // Previous conversations kept per group
+    private readonly CONTACT_TTL = 86400; // Contact cache TTL in seconds (24 hours)
+    private readonly DEDUPE_TTL = 172800; // Processed message ID TTL in seconds (48 hours)
+    private readonly MESSAGE_LINK_TTL = 2592000; // Message ID map TTL in seconds (30 days)
+    private readonly CONTEXT_TTL = 86400; // Context older than a day is no longer relevant
+    private readonly HELD_TTL = 1209600; // Held messages TTL in seconds (14 days)
+    private readonly SWEEP_INTERVAL = 60000; // How often expired entries are dropped, in milliseconds
+    private sweeper?: NodeJS.Timeout;
+
+    private locks = new Map<string, ExpiringValue<string>>(); // Conversation locks, with the owner token
+    private queueLocks = new Map<string, ExpiringValue<string>>(); // Value is the owner token
+    private queues: Record<MessageDirection, Map<string, QueuedMessage[]>> = { // Oldest entry first
+        telegram_to_intercom: new Map(),
+        intercom_to_telegram: new Map()
+    };
+    private deadLetters: Record<MessageDirection, QueuedMessage[]> = { // Newest entry first
+        telegram_to_intercom: [],
+        intercom_to_telegram: []
+    };
+    private mappings = new Map<string, GroupMapping>();
+    private conversationIndex = new Map<string, string>(); // Conversation ID -> Telegram group ID
+    private history = new Map<string, ConversationHistoryEntry[]>();
+    private settings = new Map<string, GroupSettings>();
+    private groupAccess = new Map<string, GroupAccess>();
+    private messageLinks = new Map<string, ExpiringValue<MessageLink>>();
+    private context = new Map<string, ExpiringValue<ContextMessage[]>>(); // Oldest message first
+    private held = new Map<string, ExpiringValue<Message[]>>(); // Oldest message first
+    private contacts = new Map<string, ExpiringValue<string>>();
+    private participants = new Map<string, ExpiringValue<Set<string>>>();
+    private claims = new Map<string, ExpiringValue<true>>(); // Webhook deliveries and processed messages
+
+    async connect(): Promise<void> {
+        if (this.sweeper) {
+            return;
+        }
+
+        this.sweeper = setInterval(() => this.sweepExpired(), this.SWEEP_INTERVAL);
+        // Don't keep the process alive for the sweeper alone
+        this.sweeper.unref();
+        log.info('Using in-memory storage, state is lost on restart');
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.sweeper) {
+            clearInterval(this.sweeper);
+            this.sweeper = undefined;
+        }
+    }
+
+    async ping(): Promise<void> {
+        if (!this.sweeper) {
+            throw new Error('In-memory storage is not connected');
+        }
+    }
+
+    async acquireLock(telegramGroupId: string, owner: string): Promise<boolean> {
+        if (this.get(this.locks, telegramGroupId) !== null) {
+            return false;
+        }
+        this.locks.set(telegramGroupId, { value: owner, expiresAt: this.expiresAt(this.LOCK_TTL) });
+        return true;
+    }
+
+    async releaseLock(telegramGroupId: string, owner: string): Promise<void> {
+        if (this.get(this.locks, telegramGroupId) === owner) {
+            this.locks.delete(telegramGroupId);
+        }
+    }
+
+    private queue(direction: MessageDirection = 'telegram_to_intercom'): Map<string, QueuedMessage[]> {
+        return this.queues[direction];
+    }
+
+    async queueMessage(groupId: string, message: Message, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const now = Date.now();
+        this.pushQueueEntry({
+            groupId,
+            direction,
+            message,
+            attempts: 0,
+            queuedAt: now,
+            nextAttemptAt: now
+        });
+    }
+
+    private pushQueueEntry(entry: QueuedMessage): void {
+        const queues = this.queue(entry.direction);
+        const queue = queues.get(entry.groupId) || [];
+        queue.push(this.copy(entry));
+        queues.set(entry.groupId, queue);
+        log.info('Message queued', {
+            groupId: entry.groupId,
+            direction: entry.direction,
+            messageId: entry.message.id,
+            attempts: entry.attempts,
+            queueLength: queue.length
+        });
+    }
+
+    async getQueuedMessages(groupId: string, direction?: MessageDirection): Promise<Message[]> {
+        const entries = await this.getQueuedEntries(groupId, direction);
+        return entries.map(entry => entry.message);
+    }
+
+    async getQueuedEntries(groupId: string, direction?: MessageDirection): Promise<QueuedMessage[]> {
+        return (this.queue(direction).get(groupId) || []).map(entry => this.copy(entry));
+    }
+
+    async getQueuedGroups(direction?: MessageDirection): Promise<string[]> {
+        return Array.from(this.queue(direction).keys());
+    }
+
+    async pruneQueuedGroup(groupId: string, direction?: MessageDirection): Promise<void> {
+        if (this.queue(direction).get(groupId)?.length === 0) {
+            this.queue(direction).delete(groupId);
+        }
+    }
+
+    async peekQueuedMessage(groupId: string, direction?: MessageDirection): Promise<QueuedMessage | null> {
+        const entry = this.queue(direction).get(groupId)?.[0];
+        return entry ? this.copy(entry) : null;
+    }
+
+    async removeQueuedMessage(groupId: string, direction?: MessageDirection): Promise<void> {
+        this.queue(direction).get(groupId)?.shift();
+    }
+
+    async updateQueuedMessage(entry: QueuedMessage): Promise<void> {
+        const queue = this.queue(entry.direction).get(entry.groupId);
+        if (queue && queue.length > 0) {
+            queue[0] = this.copy(entry);
+        }
+    }
+
+    async acquireQueueLock(
+        groupId: string,
+        owner: string,
+        ttlSeconds: number,
+        direction: MessageDirection = 'telegram_to_intercom'
+    ): Promise<boolean> {
+        const key = `${direction}:${groupId}`;
+        if (this.get(this.queueLocks, key) !== null) {
+            return false;
+        }
+        this.queueLocks.set(key, { value: owner, expiresAt: this.expiresAt(ttlSeconds) });
+        return true;
+    }
+
+    async extendQueueLock(
+        groupId: string,
+        owner: string,
+        ttlSeconds: number,
+        direction: MessageDirection = 'telegram_to_intercom'
+    ): Promise<boolean> {
+        const key = `${direction}:${groupId}`;
+        if (this.get(this.queueLocks, key) !== owner) {
+            return false;
+        }
+        this.queueLocks.set(key, { value: owner, expiresAt: this.expiresAt(ttlSeconds) });
+        return true;
+    }
+
+    async releaseQueueLock(groupId: string, owner: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const key = `${direction}:${groupId}`;
+        if (this.get(this.queueLocks, key) === owner) {
+            this.queueLocks.delete(key);
+        }
+    }
+
+    async moveToDeadLetter(entry: QueuedMessage): Promise<void> {
+        const direction = entry.direction || 'telegram_to_intercom';
+        this.queue(direction).get(entry.groupId)?.shift();
+        this.deadLetters[direction].unshift({ ...this.copy(entry), deadLetteredAt: Date.now() });
+        log.warn('Message moved to dead-letter list', {
+            groupId: entry.groupId,
+            direction: entry.direction,
+            messageId: entry.message.id,
+            attempts: entry.attempts,
+            lastError: entry.lastError
+        });
+    }
+
+    async getDeadLetters(groupId?: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<QueuedMessage[]> {
+        return this.deadLetters[direction]
+            .filter(entry => !groupId || entry.groupId === groupId)
+            .map(entry => this.copy(entry));
+    }
+
+    async getDeadLetterCount(direction: MessageDirection = 'telegram_to_intercom'): Promise<number> {
+        return this.deadLetters[direction].length;
+    }
+
+    async replayDeadLetters(groupId?: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<number> {
+        const replay = this.deadLetters[direction].filter(entry => !groupId || entry.groupId === groupId);
+        this.deadLetters[direction] = this.deadLetters[direction].filter(entry => !replay.includes(entry));
+
+        // Oldest first, so replayed messages keep their original order
+        const now = Date.now();
+        for (const entry of replay.reverse()) {
+            this.pushQueueEntry({
+                groupId: entry.groupId,
+                direction,
+                message: entry.message,
+                attempts: 0,
+                queuedAt: now,
+                nextAttemptAt: now
+            });
+        }
+
+        log.info('Replayed dead-lettered messages', {
+            groupId,
+            direction,
+            replayed: replay.length
+        });
+        return replay.length;
+    }
+
+    async clearMessageQueue(groupId: string, direction?: MessageDirection): Promise<void> {
+        this.queue(direction).delete(groupId);
+        log.info('Message queue cleared', { groupId, direction });
+    }
+
+    async getQueueLength(groupId: string, direction?: MessageDirection): Promise<number> {
+        return this.queue(direction).get(groupId)?.length || 0;
+    }
+
+    async saveGroupMapping(mapping: GroupMapping): Promise<void> {
+        const previous = this.mappings.get(mapping.telegramGroupId);
+        this.mappings.set(mapping.telegramGroupId, {
+            ...mapping,
+            conversationState: mapping.conversationState || 'open'
+        });
+        this.conversationIndex.set(mapping.intercomConversationId, mapping.telegramGroupId);
+
+        if (previous && previous.intercomConversationId !== mapping.intercomConversationId) {
+            this.removeFromConversationIndex(previous.intercomConversationId, mapping.telegramGroupId);
+        }
+    }
+
+    async getGroupMapping(telegramGroupId: string): Promise<GroupMapping | null> {
+        const mapping = this.mappings.get(telegramGroupId);
+        return mapping ? { ...mapping } : null;
+    }
+
+    async updateConversationState(telegramGroupId: string, state: ConversationState): Promise<void> {
+        const mapping = this.mappings.get(telegramGroupId);
+        if (mapping) {
+            mapping.conversationState = state;
+        }
+    }
+
+    async setGroupMappingActive(telegramGroupId: string, active: boolean): Promise<void> {
+        const mapping = this.mappings.get(telegramGroupId);
+        if (mapping) {
+            mapping.inactiveSince = active ? undefined : Date.now();
+        }
+    }
+
+    async archiveGroupMapping(telegramGroupId: string, reason: string): Promise<void> {
+        const mapping = this.mappings.get(telegramGroupId);
+        if (!mapping) {
+            return;
+        }
+
+        const history = this.history.get(telegramGroupId) || [];
+        history.unshift({
+            conversationId: mapping.intercomConversationId,
+            state: mapping.conversationState || 'open',
+            archivedAt: Date.now(),
+            reason
+        });
+        this.history.set(telegramGroupId, history.slice(0, this.HISTORY_LIMIT));
+        this.mappings.delete(telegramGroupId);
+        this.removeFromConversationIndex(mapping.intercomConversationId, telegramGroupId);
+
+        log.info('Archived group mapping', {
+            telegramGroupId,
+            conversationId: mapping.intercomConversationId,
+            reason
+        });
+    }
+
+    async getConversationHistory(telegramGroupId: string): Promise<ConversationHistoryEntry[]> {
+        return (this.history.get(telegramGroupId) || []).map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Pages through the mappings by offset, a next cursor of 0 means the listing is complete.
+     */
+    async listGroupMappings(cursor: number, count: number): Promise<{ mappings: GroupMapping[]; nextCursor: number }> {
+        const mappings = Array.from(this.mappings.values()).slice(cursor, cursor + count);
+        const nextCursor = cursor + count < this.mappings.size ? cursor + count : 0;
+        return { mappings: mappings.map(mapping => ({ ...mapping })), nextCursor };
+    }
+
+    async getIntercomConversation(telegramGroupId: string): Promise<string | null> {
+        return this.mappings.get(telegramGroupId)?.intercomConversationId || null;
+    }
+
+    async getTelegramGroup(intercomConversationId: string): Promise<string | null> {
+        return this.conversationIndex.get(intercomConversationId) || null;
+    }
+
+    private removeFromConversationIndex(intercomConversationId: string, telegramGroupId: string): void {
+        // Another group may have been mapped to the conversation since
+        if (this.conversationIndex.get(intercomConversationId) === telegramGroupId) {
+            this.conversationIndex.delete(intercomConversationId);
+        }
+    }
+
+    async updateLastMessageId(telegramGroupId: string, messageId: string): Promise<void> {
+        const mapping = this.mappings.get(telegramGroupId);
+        if (mapping) {
+            mapping.lastMessageId = messageId;
+        }
+    }
+
+    async getGroupSettings(telegramGroupId: string): Promise<GroupSettings> {
+        return this.copy(this.settings.get(telegramGroupId) || {});
+    }
+
+    async updateGroupSettings(telegramGroupId: string, settings: GroupSettings): Promise<GroupSettings> {
+        const current = await this.getGroupSettings(telegramGroupId);
+        const updated: GroupSettings = {
+            ...current,
+            ...settings,
+            notifications: { ...current.notifications, ...settings.notifications }
+        };
+        this.settings.set(telegramGroupId, this.copy(updated));
+        return updated;
+    }
+
+    async saveGroupAccess(access: GroupAccess): Promise<void> {
+        this.groupAccess.set(access.telegramGroupId, this.copy(access));
+    }
+
+    async getGroupAccess(telegramGroupId: string): Promise<GroupAccess | null> {
+        const access = this.groupAccess.get(telegramGroupId);
+        return access ? this.copy(access) : null;
+    }
+
+    async listGroupAccess(): Promise<GroupAccess[]> {
+        return Array.from(this.groupAccess.values()).map(access => this.copy(access));
+    }
+
+    async addContextMessage(telegramGroupId: string, message: ContextMessage, limit: number): Promise<void> {
+        const messages = this.get(this.context, telegramGroupId) || [];
+        messages.push(this.copy(message));
+        this.context.set(telegramGroupId, {
+            value: messages.slice(-limit),
+            expiresAt: this.expiresAt(this.CONTEXT_TTL)
+        });
+    }
+
+    async takeContextMessages(telegramGroupId: string): Promise<ContextMessage[]> {
+        const messages = this.get(this.context, telegramGroupId) || [];
+        this.context.delete(telegramGroupId);
+        return messages;
+    }
+
+    async holdMessage(telegramGroupId: string, message: Message, limit: number): Promise<void> {
+        const messages = this.get(this.held, telegramGroupId) || [];
+        messages.push(this.copy(message));
+        this.held.set(telegramGroupId, {
+            value: messages.slice(-limit),
+            expiresAt: this.expiresAt(this.HELD_TTL)
+        });
+    }
+
+    async takeHeldMessages(telegramGroupId: string): Promise<Message[]> {
+        const messages = this.get(this.held, telegramGroupId) || [];
+        this.held.delete(telegramGroupId);
+        return messages;
+    }
+
+    async saveMessageLink(link: MessageLink): Promise<void> {
+        const expiresAt = this.expiresAt(this.MESSAGE_LINK_TTL);
+        this.messageLinks.set(`tg:${link.telegramChatId}:${link.telegramMessageId}`, { value: { ...link }, expiresAt });
+        this.messageLinks.set(`ic:${link.intercomPartId}`, { value: { ...link }, expiresAt });
+    }
+
+    async getMessageLinkByTelegramMessage(chatId: string, messageId: string): Promise<MessageLink | null> {
+        const link = this.get(this.messageLinks, `tg:${chatId}:${messageId}`);
+        return link ? { ...link } : null;
+    }
+
+    async getMessageLinkByIntercomPart(partId: string): Promise<MessageLink | null> {
+        const link = this.get(this.messageLinks, `ic:${partId}`);
+        return link ? { ...link } : null;
+    }
+
+    async saveContactMapping(telegramUserId: string, intercomContactId: string): Promise<void> {
+        this.contacts.set(telegramUserId, {
+            value: intercomContactId,
+            expiresAt: this.expiresAt(this.CONTACT_TTL)
+        });
+        log.info('Cached contact mapping', {
+            telegramUserId,
+            intercomContactId
+        });
+    }
+
+    async getContactMapping(telegramUserId: string): Promise<string | null> {
+        return this.get(this.contacts, telegramUserId);
+    }
+
+    async invalidateContactMapping(telegramUserId: string): Promise<void> {
+        this.contacts.delete(telegramUserId);
+        log.info('Invalidated contact cache', {
+            telegramUserId
+        });
+    }
+
+    async listContactMappings(cursor: number, count: number): Promise<{ contacts: ContactMapping[]; nextCursor: number }> {
+        const contacts: ContactMapping[] = [];
+        for (const telegramUserId of this.contacts.keys()) {
+            const intercomContactId = this.get(this.contacts, telegramUserId);
+            if (intercomContactId) {
+                contacts.push({ telegramUserId, intercomContactId });
+            }
+        }
+        const nextCursor = cursor + count < contacts.length ? cursor + count : 0;
+        return { contacts: contacts.slice(cursor, cursor + count), nextCursor };
+    }
+
+    async flushContactMappings(): Promise<number> {
+        const flushed = this.contacts.size;
+        this.contacts.clear();
+        log.info('Flushed contact cache', { flushed });
+        return flushed;
+    }
+
+    async addConversationParticipant(conversationId: string, contactId: string): Promise<void> {
+        const participants = this.get(this.participants, conversationId) || new Set<string>();
+        participants.add(contactId);
+        this.participants.set(conversationId, {
+            value: participants,
+            expiresAt: this.expiresAt(this.MESSAGE_LINK_TTL)
+        });
+    }
+
+    async isConversationParticipant(conversationId: string, contactId: string): Promise<boolean> {
+        return this.get(this.participants, conversationId)?.has(contactId) || false;
+    }
+
+    async claimWebhookDelivery(notificationId: string, ttlSeconds: number): Promise<boolean> {
+        return this.claim(this.claims, `webhook:${notificationId}`, ttlSeconds);
+    }
+
+    async releaseWebhookDelivery(notificationId: string): Promise<void> {
+        this.claims.delete(`webhook:${notificationId}`);
+    }
+
+    async markIntercomPartProcessed(partId: string): Promise<boolean> {
+        return this.claim(this.claims, `part:${partId}`, this.DEDUPE_TTL);
+    }
+
+    async markTelegramMessageProcessed(chatId: string, messageId: string): Promise<boolean> {
+        return this.claim(this.claims, `message:${chatId}:${messageId}`, this.DEDUPE_TTL);
+    }
+
+    async unmarkIntercomPartProcessed(partId: string): Promise<void> {
+        this.claims.delete(`part:${partId}`);
+    }
+
+    async unmarkTelegramMessageProcessed(chatId: string, messageId: string): Promise<void> {
+        this.claims.delete(`message:${chatId}:${messageId}`);
+    }
+
+    /**
+     * Sets the key unless it holds an unexpired value, the in-memory counterpart of SET NX EX.
+     */
+    private claim(map: Map<string, ExpiringValue<true>>, key: string, ttlSeconds: number): boolean {
+        if (this.get(map, key)) {
+            return false;
+        }
+        map.set(key, { value: true, expiresAt: this.expiresAt(ttlSeconds) });
+        return true;
+    }
+
+    private get<T>(map: Map<string, ExpiringValue<T>>, key: string): T | null {
+        const entry = map.get(key);
+        if (!entry) {
+            return null;
+        }
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            map.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    private sweepExpired(): void {
+        const expiring: Array<Map<string, ExpiringValue<unknown>>> = [
+            this.locks,
+            this.queueLocks,
+            this.messageLinks,
+            this.context,
+            this.held,
+            this.contacts,
+            this.participants,
+            this.claims
+        ];
+        for (const map of expiring) {
+            for (const key of map.keys()) {
+                this.get(map, key);
+            }
+        }
+    }
+
+    private expiresAt(ttlSeconds: number): number {
+        return Date.now() + ttlSeconds * 1000;
+    }
+
+    // Callers get copies, as they would from a serialized store
+    private copy<T>(value: T): T {
+        return JSON.parse(JSON.stringify(value));
+    }
+}
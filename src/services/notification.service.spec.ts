@@ -0,0 +1,48 @@
+import { NotificationService } from './notification.service';
+import { TelegramService } from './telegram.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { ConversationLifecycleEvent } from '../types';
+
+const GROUP_ID = '-100200';
+
+function closedEvent(): ConversationLifecycleEvent {
+    return { kind: 'closed', conversationId: '1001', groupId: GROUP_ID, adminName: 'Alice', timestamp: Date.now() };
+}
+
+describe('NotificationService', () => {
+    let storage: MemoryStorageService;
+    let telegram: { sendMessage: jest.Mock };
+
+    beforeEach(() => {
+        storage = new MemoryStorageService();
+        telegram = { sendMessage: jest.fn(async () => '900') };
+    });
+
+    function createService(options: ConstructorParameters<typeof NotificationService>[2] = {}): NotificationService {
+        return new NotificationService(telegram as unknown as TelegramService, storage, options);
+    }
+
+    it('tells the group that replying reopens a closed request by default', async () => {
+        await createService().notify(GROUP_ID, closedEvent());
+
+        expect(telegram.sendMessage).toHaveBeenCalledWith(GROUP_ID, '✅ This request was marked resolved. Reply here to reopen it.');
+    });
+
+    it('tells the group that writing starts a new request when closed conversations are not reopened', async () => {
+        await createService({ closedConversationPolicy: 'new' }).notify(GROUP_ID, closedEvent());
+        await createService({ groups: { [GROUP_ID]: { closedConversationPolicy: 'new' } } }).notify(GROUP_ID, closedEvent());
+
+        expect(telegram.sendMessage.mock.calls).toEqual([
+            [GROUP_ID, '✅ This request was marked resolved. Write here to start a new request.'],
+            [GROUP_ID, '✅ This request was marked resolved. Write here to start a new request.']
+        ]);
+    });
+
+    it('skips notifications a group switched off', async () => {
+        await storage.updateGroupSettings(GROUP_ID, { notifications: { closed: false } });
+
+        await createService().notify(GROUP_ID, closedEvent());
+
+        expect(telegram.sendMessage).not.toHaveBeenCalled();
+    });
+});
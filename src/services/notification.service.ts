@@ -0,0 +1,110 @@
+import { TelegramService } from './telegram.service';
+import { BridgeStorage } from './storage';
+import { ClosedConversationPolicy, ConversationLifecycleEvent, GroupConfig, NotificationKind } from '../types';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ component: 'notifications' });
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['assigned', 'snoozed', 'closed', 'opened'];
+
+export interface NotificationOptions {
+    // Notifications sent to groups that have no override of their own
+    enabled: NotificationKind[];
+    // Message text per event. {admin}, {assignee}, {until} and {followup} are replaced, HTML is allowed
+    templates: Record<NotificationKind, string>;
+    // Per-group defaults from the configuration, group settings stored at runtime win
+    groups: Record<string, GroupConfig>;
+    // What a customer's next message does after a close, told to the group through {followup}
+    closedConversationPolicy: ClosedConversationPolicy;
+}
+
+const FOLLOWUP_TEXTS: Record<ClosedConversationPolicy, string> = {
+    reopen: 'Reply here to reopen it.',
+    new: 'Write here to start a new request.'
+};
+
+const DEFAULT_NOTIFICATION_OPTIONS: NotificationOptions = {
+    enabled: NOTIFICATION_KINDS,
+    templates: {
+        assigned: '👋 {assignee} from Support is looking at this.',
+        snoozed: '⏰ This request is on hold until {until}. We will follow up then.',
+        closed: '✅ This request was marked resolved. {followup}',
+        opened: '🔄 This request was reopened. Support is looking into it again.'
+    },
+    groups: {},
+    closedConversationPolicy: 'reopen'
+};
+
+export class NotificationService {
+    private readonly options: NotificationOptions;
+
+    constructor(
+        private telegramService: TelegramService,
+        private storage: BridgeStorage,
+        options: {
+            enabled?: NotificationKind[];
+            templates?: Partial<Record<NotificationKind, string>>;
+            groups?: Record<string, GroupConfig>;
+            closedConversationPolicy?: ClosedConversationPolicy;
+        } = {}
+    ) {
+        this.options = {
+            enabled: options.enabled || DEFAULT_NOTIFICATION_OPTIONS.enabled,
+            templates: { ...DEFAULT_NOTIFICATION_OPTIONS.templates, ...options.templates },
+            groups: options.groups || DEFAULT_NOTIFICATION_OPTIONS.groups,
+            closedConversationPolicy: options.closedConversationPolicy || DEFAULT_NOTIFICATION_OPTIONS.closedConversationPolicy
+        };
+    }
+
+    /**
+     * Tells the Telegram group about a change an agent made to its conversation,
+     * unless the event's notification is switched off for the group.
+     */
+    async notify(groupId: string, event: ConversationLifecycleEvent): Promise<void> {
+        if (event.kind === 'deleted') {
+            return;
+        }
+
+        if (!await this.isEnabled(groupId, event.kind)) {
+            log.info('Notification disabled for group', {
+                groupId,
+                kind: event.kind
+            });
+            return;
+        }
+
+        const text = this.render(this.options.templates[event.kind], groupId, event);
+        await this.telegramService.sendMessage(groupId, text);
+        log.info('Sent conversation notification', {
+            groupId,
+            kind: event.kind,
+            conversationId: event.conversationId
+        });
+    }
+
+    async isEnabled(groupId: string, kind: NotificationKind): Promise<boolean> {
+        const settings = await this.storage.getGroupSettings(groupId);
+        const override = settings.notifications?.[kind] ?? this.options.groups[groupId]?.notifications?.[kind];
+        return override !== undefined ? override : this.options.enabled.includes(kind);
+    }
+
+    private render(template: string, groupId: string, event: ConversationLifecycleEvent): string {
+        const policy = this.options.groups[groupId]?.closedConversationPolicy || this.options.closedConversationPolicy;
+        const values: Record<string, string> = {
+            admin: escapeHtml(event.adminName || 'Support'),
+            assignee: escapeHtml(event.assigneeName || event.adminName || 'Someone'),
+            until: event.snoozedUntil ? this.formatTime(event.snoozedUntil) : 'later',
+            followup: FOLLOWUP_TEXTS[policy]
+        };
+        return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+    }
+
+    private formatTime(timestamp: number): string {
+        return `${new Date(timestamp).toLocaleString('en-GB', {
+            timeZone: 'UTC',
+            dateStyle: 'medium',
+            timeStyle: 'short'
+        })} UTC`;
+    }
+}
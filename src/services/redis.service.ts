@@ -1,86 +1,361 @@
 import { createClient } from 'redis';
-import { GroupMapping, Message } from '../types';
+import {
+    ContactMapping,
+    ContextMessage,
+    ConversationHistoryEntry,
+    ConversationState,
+    GroupAccess,
+    GroupMapping,
+    GroupSettings,
+    Message,
+    MessageDirection,
+    MessageLink,
+    QueuedMessage
+} from '../types';
+import { BridgeStorage } from './storage';
+import { logger } from '../utils/logger';
 
-export class RedisService {
+const log = logger.child({ component: 'storage' });
+
+export class RedisService implements BridgeStorage {
     private client;
     private readonly MAPPING_KEY = 'group_mappings';
+    private readonly CONVERSATION_INDEX_KEY = 'conversation_groups'; // Conversation ID -> Telegram group ID
+    private readonly CONVERSATION_INDEX_BACKFILL_KEY = 'conversation_groups_backfilled';
+    private readonly HISTORY_KEY = 'conversation_history';
+    private readonly SETTINGS_KEY = 'group_settings';
+    private readonly GROUP_ACCESS_KEY = 'group_access'; // Telegram group ID -> approval record
     private readonly LOCK_KEY = 'conversation_locks';
     private readonly QUEUE_KEY = 'message_queues';
+    private readonly QUEUE_GROUPS_KEY = 'message_queue_groups';
+    private readonly QUEUE_LOCK_KEY = 'queue_locks';
+    private readonly DEAD_LETTER_KEY = 'dead_letters';
     private readonly CONTACT_KEY = 'contact_mappings';
+    private readonly PARTICIPANT_KEY = 'conversation_participants';
+    private readonly WEBHOOK_DELIVERY_KEY = 'webhook_deliveries';
+    private readonly PROCESSED_PART_KEY = 'processed_intercom_parts';
+    private readonly PROCESSED_MESSAGE_KEY = 'processed_telegram_messages';
+    private readonly MESSAGE_LINK_KEY = 'message_links';
+    private readonly CONTEXT_KEY = 'context_messages';
+    private readonly HELD_KEY = 'held_messages';
     private readonly LOCK_TTL = 30; // Lock timeout in seconds
+    private readonly HISTORY_LIMIT = 50; // Previous conversations kept per group
     private readonly CONTACT_TTL = 86400; // Contact cache TTL in seconds (24 hours)
+    private readonly DEDUPE_TTL = 172800; // Processed message ID TTL in seconds (48 hours)
+    private readonly MESSAGE_LINK_TTL = 2592000; // Message ID map TTL in seconds (30 days)
+    private readonly CONTEXT_TTL = 86400; // Context older than a day is no longer relevant
+    private readonly HELD_TTL = 1209600; // Held messages TTL in seconds (14 days)
+    // Compare-and-act on a lock in one step, so a lock that expired and was taken over is left alone
+    private readonly EXTEND_IF_OWNER =
+        'if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("EXPIRE", KEYS[1], ARGV[2]) else return 0 end';
+    private readonly DELETE_IF_OWNER =
+        'if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) else return 0 end';
 
     constructor(redisUrl: string) {
         this.client = createClient({
             url: redisUrl
         });
-        this.init();
+        // Without a listener connection errors crash the process, the client reconnects by itself
+        this.client.on('error', error => {
+            log.error('Redis client error', { error });
+        });
     }
 
-    private async init() {
+    async connect(): Promise<void> {
+        if (this.client.isOpen) {
+            return;
+        }
+
         await this.client.connect();
+        log.info('Connected to Redis');
+        await this.backfillConversationIndex();
     }
 
-    async acquireLock(telegramGroupId: string): Promise<boolean> {
+    async acquireLock(telegramGroupId: string, owner: string): Promise<boolean> {
         const lockKey = `${this.LOCK_KEY}:${telegramGroupId}`;
-        const result = await this.client.set(lockKey, '1', {
+        const result = await this.client.set(lockKey, owner, {
             NX: true, // Only set if key doesn't exist
             EX: this.LOCK_TTL // Expire after TTL seconds
         });
         return result === 'OK';
     }
 
-    async releaseLock(telegramGroupId: string): Promise<void> {
+    async releaseLock(telegramGroupId: string, owner: string): Promise<void> {
         const lockKey = `${this.LOCK_KEY}:${telegramGroupId}`;
-        await this.client.del(lockKey);
+        await this.client.eval(this.DELETE_IF_OWNER, {
+            keys: [lockKey],
+            arguments: [owner]
+        });
     }
 
-    async queueMessage(groupId: string, message: Message): Promise<void> {
-        const queueKey = `${this.QUEUE_KEY}:${groupId}`;
-        await this.client.lPush(queueKey, JSON.stringify(message));
-        console.log('Message queued:', {
+    /**
+     * Keys of the queues for one direction. Telegram to Intercom keeps the original key names.
+     */
+    private queueKeys(direction: MessageDirection): { queue: string; groups: string; lock: string; deadLetters: string } {
+        const prefix = direction === 'intercom_to_telegram' ? 'outbound_' : '';
+        return {
+            queue: `${prefix}${this.QUEUE_KEY}`,
+            groups: `${prefix}${this.QUEUE_GROUPS_KEY}`,
+            lock: `${prefix}${this.QUEUE_LOCK_KEY}`,
+            deadLetters: `${prefix}${this.DEAD_LETTER_KEY}`
+        };
+    }
+
+    async queueMessage(groupId: string, message: Message, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const now = Date.now();
+        await this.pushQueueEntry({
             groupId,
-            messageId: message.id,
+            direction,
+            message,
+            attempts: 0,
+            queuedAt: now,
+            nextAttemptAt: now
+        });
+    }
+
+    private async pushQueueEntry(entry: QueuedMessage): Promise<void> {
+        const keys = this.queueKeys(entry.direction || 'telegram_to_intercom');
+        const queueKey = `${keys.queue}:${entry.groupId}`;
+        // Newest entries go to the head, the retry worker consumes from the tail
+        await this.client.lPush(queueKey, JSON.stringify(entry));
+        await this.client.sAdd(keys.groups, entry.groupId);
+        log.info('Message queued', {
+            groupId: entry.groupId,
+            direction: entry.direction,
+            messageId: entry.message.id,
+            attempts: entry.attempts,
             queueLength: await this.client.lLen(queueKey)
         });
     }
 
-    async getQueuedMessages(groupId: string): Promise<Message[]> {
-        const queueKey = `${this.QUEUE_KEY}:${groupId}`;
-        const messages: Message[] = [];
-        
-        // Get all messages atomically
+    private parseQueueEntry(groupId: string, raw: string, direction: MessageDirection): QueuedMessage | null {
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && parsed.message && typeof parsed.attempts === 'number') {
+                return { direction, ...parsed } as QueuedMessage;
+            }
+            // Entries queued before retry tracking existed are bare messages
+            return {
+                groupId,
+                direction,
+                message: parsed as Message,
+                attempts: 0,
+                queuedAt: parsed?.timestamp || Date.now(),
+                nextAttemptAt: 0
+            };
+        } catch (error) {
+            log.error('Error parsing queued message', { error });
+            return null;
+        }
+    }
+
+    async getQueuedMessages(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<Message[]> {
+        const entries = await this.getQueuedEntries(groupId, direction);
+        return entries.map(entry => entry.message);
+    }
+
+    /**
+     * Returns the queue for a group, oldest entry first.
+     */
+    async getQueuedEntries(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<QueuedMessage[]> {
+        const queueKey = `${this.queueKeys(direction).queue}:${groupId}`;
         const results = await this.client.lRange(queueKey, 0, -1);
-        
-        for (const result of results) {
-            try {
-                messages.push(JSON.parse(result));
-            } catch (error) {
-                console.error('Error parsing queued message:', error);
+
+        return results
+            .reverse()
+            .map(result => this.parseQueueEntry(groupId, result, direction))
+            .filter((entry): entry is QueuedMessage => entry !== null);
+    }
+
+    async getQueuedGroups(direction: MessageDirection = 'telegram_to_intercom'): Promise<string[]> {
+        return await this.client.sMembers(this.queueKeys(direction).groups);
+    }
+
+    /**
+     * Drops a group from the set of queues the retry worker scans once its queue is empty.
+     */
+    async pruneQueuedGroup(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const groupsKey = this.queueKeys(direction).groups;
+        await this.client.sRem(groupsKey, groupId);
+        // A message may have been queued between the caller's check and the removal
+        if (await this.getQueueLength(groupId, direction) > 0) {
+            await this.client.sAdd(groupsKey, groupId);
+        }
+    }
+
+    /**
+     * Returns the oldest queued entry without removing it.
+     */
+    async peekQueuedMessage(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<QueuedMessage | null> {
+        const queueKey = `${this.queueKeys(direction).queue}:${groupId}`;
+        const raw = await this.client.lIndex(queueKey, -1);
+        return raw ? this.parseQueueEntry(groupId, raw, direction) : null;
+    }
+
+    /**
+     * Removes the oldest queued entry. Only the holder of the group's queue lock may call this.
+     */
+    async removeQueuedMessage(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const queueKey = `${this.queueKeys(direction).queue}:${groupId}`;
+        await this.client.rPop(queueKey);
+    }
+
+    /**
+     * Replaces the oldest queued entry in place, keeping its position in the queue.
+     */
+    async updateQueuedMessage(entry: QueuedMessage): Promise<void> {
+        const queueKey = `${this.queueKeys(entry.direction || 'telegram_to_intercom').queue}:${entry.groupId}`;
+        await this.client.lSet(queueKey, -1, JSON.stringify(entry));
+    }
+
+    async acquireQueueLock(
+        groupId: string,
+        owner: string,
+        ttlSeconds: number,
+        direction: MessageDirection = 'telegram_to_intercom'
+    ): Promise<boolean> {
+        const lockKey = `${this.queueKeys(direction).lock}:${groupId}`;
+        const result = await this.client.set(lockKey, owner, {
+            NX: true,
+            EX: ttlSeconds
+        });
+        return result === 'OK';
+    }
+
+    /**
+     * Resets the lock's timeout, resolves to false if the lock expired or another owner holds it.
+     */
+    async extendQueueLock(
+        groupId: string,
+        owner: string,
+        ttlSeconds: number,
+        direction: MessageDirection = 'telegram_to_intercom'
+    ): Promise<boolean> {
+        const lockKey = `${this.queueKeys(direction).lock}:${groupId}`;
+        const result = await this.client.eval(this.EXTEND_IF_OWNER, {
+            keys: [lockKey],
+            arguments: [owner, String(ttlSeconds)]
+        });
+        return result === 1;
+    }
+
+    async releaseQueueLock(groupId: string, owner: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const lockKey = `${this.queueKeys(direction).lock}:${groupId}`;
+        await this.client.eval(this.DELETE_IF_OWNER, {
+            keys: [lockKey],
+            arguments: [owner]
+        });
+    }
+
+    /**
+     * Moves the oldest queued entry of a group to the dead-letter list in one transaction.
+     */
+    async moveToDeadLetter(entry: QueuedMessage): Promise<void> {
+        const keys = this.queueKeys(entry.direction || 'telegram_to_intercom');
+        const queueKey = `${keys.queue}:${entry.groupId}`;
+        const deadLetter: QueuedMessage = { ...entry, deadLetteredAt: Date.now() };
+        await this.client.multi()
+            .rPop(queueKey)
+            .lPush(keys.deadLetters, JSON.stringify(deadLetter))
+            .exec();
+        log.warn('Message moved to dead-letter list', {
+            groupId: entry.groupId,
+            direction: entry.direction,
+            messageId: entry.message.id,
+            attempts: entry.attempts,
+            lastError: entry.lastError
+        });
+    }
+
+    /**
+     * Returns dead-lettered entries, newest first, optionally limited to one group.
+     */
+    async getDeadLetters(groupId?: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<QueuedMessage[]> {
+        const results = await this.client.lRange(this.queueKeys(direction).deadLetters, 0, -1);
+        return results
+            .map(result => this.parseQueueEntry('', result, direction))
+            .filter((entry): entry is QueuedMessage => entry !== null)
+            .filter(entry => !groupId || entry.groupId === groupId);
+    }
+
+    async getDeadLetterCount(direction: MessageDirection = 'telegram_to_intercom'): Promise<number> {
+        return await this.client.lLen(this.queueKeys(direction).deadLetters);
+    }
+
+    /**
+     * Moves dead-lettered entries back onto their group queues with a fresh attempt count.
+     * Returns the number of replayed messages.
+     */
+    async replayDeadLetters(groupId?: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<number> {
+        const deadLetterKey = this.queueKeys(direction).deadLetters;
+        const results = await this.client.lRange(deadLetterKey, 0, -1);
+        let replayed = 0;
+
+        // Oldest first, so replayed messages keep their original order
+        for (const raw of results.reverse()) {
+            const entry = this.parseQueueEntry('', raw, direction);
+            if (!entry || (groupId && entry.groupId !== groupId)) {
+                continue;
             }
+
+            const removed = await this.client.lRem(deadLetterKey, 1, raw);
+            if (!removed) {
+                // Already replayed by someone else
+                continue;
+            }
+
+            const now = Date.now();
+            await this.pushQueueEntry({
+                groupId: entry.groupId,
+                direction,
+                message: entry.message,
+                attempts: 0,
+                queuedAt: now,
+                nextAttemptAt: now
+            });
+            replayed++;
         }
 
-        return messages;
+        log.info('Replayed dead-lettered messages', {
+            groupId,
+            direction,
+            replayed
+        });
+        return replayed;
     }
 
-    async clearMessageQueue(groupId: string): Promise<void> {
-        const queueKey = `${this.QUEUE_KEY}:${groupId}`;
-        await this.client.del(queueKey);
-        console.log('Message queue cleared:', { groupId });
+    async clearMessageQueue(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<void> {
+        const keys = this.queueKeys(direction);
+        await this.client.del(`${keys.queue}:${groupId}`);
+        await this.client.sRem(keys.groups, groupId);
+        log.info('Message queue cleared', { groupId, direction });
     }
 
-    async getQueueLength(groupId: string): Promise<number> {
-        const queueKey = `${this.QUEUE_KEY}:${groupId}`;
+    async getQueueLength(groupId: string, direction: MessageDirection = 'telegram_to_intercom'): Promise<number> {
+        const queueKey = `${this.queueKeys(direction).queue}:${groupId}`;
         return await this.client.lLen(queueKey);
     }
 
     async saveGroupMapping(mapping: GroupMapping): Promise<void> {
         const key = `${this.MAPPING_KEY}:${mapping.telegramGroupId}`;
-        await this.client.hSet(key, {
-            telegramGroupId: String(mapping.telegramGroupId),
-            intercomConversationId: String(mapping.intercomConversationId),
-            lastMessageId: mapping.lastMessageId ? String(mapping.lastMessageId) : ''
-        });
+        const telegramGroupId = String(mapping.telegramGroupId);
+        const intercomConversationId = String(mapping.intercomConversationId);
+        const previous = await this.getGroupMapping(telegramGroupId);
+
+        await this.client.multi()
+            .hSet(key, {
+                telegramGroupId,
+                intercomConversationId,
+                lastMessageId: mapping.lastMessageId ? String(mapping.lastMessageId) : '',
+                conversationState: mapping.conversationState || 'open',
+                inactiveSince: mapping.inactiveSince ? String(mapping.inactiveSince) : ''
+            })
+            .hSet(this.CONVERSATION_INDEX_KEY, intercomConversationId, telegramGroupId)
+            .exec();
+
+        if (previous && previous.intercomConversationId !== intercomConversationId) {
+            await this.removeFromConversationIndex(previous.intercomConversationId, telegramGroupId);
+        }
     }
 
     async getGroupMapping(telegramGroupId: string): Promise<GroupMapping | null> {
@@ -89,27 +364,141 @@ export class RedisService {
         return Object.keys(mapping).length ? {
             telegramGroupId: mapping.telegramGroupId,
             intercomConversationId: mapping.intercomConversationId,
-            lastMessageId: mapping.lastMessageId || undefined
+            lastMessageId: mapping.lastMessageId || undefined,
+            conversationState: (mapping.conversationState as ConversationState) || 'open',
+            inactiveSince: mapping.inactiveSince ? Number(mapping.inactiveSince) : undefined
         } : null;
     }
 
+    async updateConversationState(telegramGroupId: string, state: ConversationState): Promise<void> {
+        const key = `${this.MAPPING_KEY}:${telegramGroupId}`;
+        await this.client.hSet(key, 'conversationState', state);
+    }
+
+    /**
+     * Marks the mapping of a group the bot left as inactive, or active again once it's back.
+     */
+    async setGroupMappingActive(telegramGroupId: string, active: boolean): Promise<void> {
+        const key = `${this.MAPPING_KEY}:${telegramGroupId}`;
+        if (!await this.client.exists(key)) {
+            return;
+        }
+        await this.client.hSet(key, 'inactiveSince', active ? '' : String(Date.now()));
+    }
+
+    /**
+     * Removes a group's mapping and records the conversation in the group's history,
+     * so the next message starts a new conversation.
+     */
+    async archiveGroupMapping(telegramGroupId: string, reason: string): Promise<void> {
+        const mapping = await this.getGroupMapping(telegramGroupId);
+        if (!mapping) {
+            return;
+        }
+
+        const entry: ConversationHistoryEntry = {
+            conversationId: mapping.intercomConversationId,
+            state: mapping.conversationState || 'open',
+            archivedAt: Date.now(),
+            reason
+        };
+        const historyKey = `${this.HISTORY_KEY}:${telegramGroupId}`;
+        await this.client.multi()
+            .lPush(historyKey, JSON.stringify(entry))
+            .lTrim(historyKey, 0, this.HISTORY_LIMIT - 1)
+            .del(`${this.MAPPING_KEY}:${telegramGroupId}`)
+            .exec();
+        await this.removeFromConversationIndex(mapping.intercomConversationId, telegramGroupId);
+
+        log.info('Archived group mapping', {
+            telegramGroupId,
+            conversationId: mapping.intercomConversationId,
+            reason
+        });
+    }
+
+    /**
+     * Returns the group's previous conversations, most recently archived first.
+     */
+    async getConversationHistory(telegramGroupId: string): Promise<ConversationHistoryEntry[]> {
+        const results = await this.client.lRange(`${this.HISTORY_KEY}:${telegramGroupId}`, 0, -1);
+        return results.map(result => JSON.parse(result));
+    }
+
+    /**
+     * Pages through all group mappings. SCAN treats the count as a hint, so a page may hold
+     * more or fewer mappings; a next cursor of 0 means the listing is complete.
+     */
+    async listGroupMappings(cursor: number, count: number): Promise<{ mappings: GroupMapping[]; nextCursor: number }> {
+        const reply = await this.client.scan(cursor, {
+            MATCH: `${this.MAPPING_KEY}:*`,
+            COUNT: count
+        });
+        const mappings: GroupMapping[] = [];
+        for (const key of reply.keys) {
+            const mapping = await this.getGroupMapping(String(key).slice(this.MAPPING_KEY.length + 1));
+            if (mapping) {
+                mappings.push(mapping);
+            }
+        }
+        return { mappings, nextCursor: reply.cursor };
+    }
+
     async getIntercomConversation(telegramGroupId: string): Promise<string | null> {
         const mapping = await this.getGroupMapping(telegramGroupId);
         return mapping?.intercomConversationId || null;
     }
 
     async getTelegramGroup(intercomConversationId: string): Promise<string | null> {
-        // This is a simplified implementation. In production, you might want to maintain a reverse index
-        const pattern = `${this.MAPPING_KEY}:*`;
-        const keys = await this.client.keys(pattern);
-        
-        for (const key of keys) {
-            const mapping = await this.client.hGetAll(key);
-            if (mapping.intercomConversationId === intercomConversationId) {
-                return mapping.telegramGroupId;
+        const telegramGroupId = await this.client.hGet(this.CONVERSATION_INDEX_KEY, intercomConversationId);
+        if (!telegramGroupId) {
+            return null;
+        }
+
+        // Guard against entries left behind by mappings changed outside this service
+        const mapping = await this.getGroupMapping(telegramGroupId);
+        if (mapping?.intercomConversationId !== intercomConversationId) {
+            await this.removeFromConversationIndex(intercomConversationId, telegramGroupId);
+            return null;
+        }
+        return telegramGroupId;
+    }
+
+    /**
+     * Builds the conversation -> group index from the existing mappings. Runs once per Redis
+     * database, later calls return right away. Resolves to the number of indexed mappings.
+     */
+    private async backfillConversationIndex(): Promise<number> {
+        const firstRun = await this.client.set(this.CONVERSATION_INDEX_BACKFILL_KEY, String(Date.now()), { NX: true });
+        if (firstRun !== 'OK') {
+            return 0;
+        }
+
+        let indexed = 0;
+        try {
+            for await (const key of this.client.scanIterator({ MATCH: `${this.MAPPING_KEY}:*`, COUNT: 500 })) {
+                const mapping = await this.client.hGetAll(key);
+                if (mapping.intercomConversationId && mapping.telegramGroupId) {
+                    await this.client.hSetNX(this.CONVERSATION_INDEX_KEY, mapping.intercomConversationId, mapping.telegramGroupId);
+                    indexed++;
+                }
             }
+        } catch (error) {
+            // Let the next start try again
+            await this.client.del(this.CONVERSATION_INDEX_BACKFILL_KEY);
+            throw error;
+        }
+
+        log.info('Backfilled conversation index', { indexed });
+        return indexed;
+    }
+
+    private async removeFromConversationIndex(intercomConversationId: string, telegramGroupId: string): Promise<void> {
+        // Another group may have been mapped to the conversation since
+        const indexedGroupId = await this.client.hGet(this.CONVERSATION_INDEX_KEY, intercomConversationId);
+        if (indexedGroupId === telegramGroupId) {
+            await this.client.hDel(this.CONVERSATION_INDEX_KEY, intercomConversationId);
         }
-        return null;
     }
 
     async updateLastMessageId(telegramGroupId: string, messageId: string): Promise<void> {
@@ -117,12 +506,113 @@ export class RedisService {
         await this.client.hSet(key, 'lastMessageId', messageId);
     }
 
+    async getGroupSettings(telegramGroupId: string): Promise<GroupSettings> {
+        const value = await this.client.get(`${this.SETTINGS_KEY}:${telegramGroupId}`);
+        return value ? JSON.parse(value) : {};
+    }
+
+    /**
+     * Merges the given settings into the group's stored settings.
+     */
+    async updateGroupSettings(telegramGroupId: string, settings: GroupSettings): Promise<GroupSettings> {
+        const current = await this.getGroupSettings(telegramGroupId);
+        const updated: GroupSettings = {
+            ...current,
+            ...settings,
+            notifications: { ...current.notifications, ...settings.notifications }
+        };
+        await this.client.set(`${this.SETTINGS_KEY}:${telegramGroupId}`, JSON.stringify(updated));
+        return updated;
+    }
+
+    async saveGroupAccess(access: GroupAccess): Promise<void> {
+        await this.client.hSet(this.GROUP_ACCESS_KEY, access.telegramGroupId, JSON.stringify(access));
+    }
+
+    async getGroupAccess(telegramGroupId: string): Promise<GroupAccess | null> {
+        const value = await this.client.hGet(this.GROUP_ACCESS_KEY, telegramGroupId);
+        return value ? JSON.parse(value) : null;
+    }
+
+    async listGroupAccess(): Promise<GroupAccess[]> {
+        const values = await this.client.hGetAll(this.GROUP_ACCESS_KEY);
+        return Object.values(values).map(value => JSON.parse(value));
+    }
+
+    /**
+     * Appends to the group's context, keeping only the latest `limit` messages.
+     */
+    async addContextMessage(telegramGroupId: string, message: ContextMessage, limit: number): Promise<void> {
+        const key = `${this.CONTEXT_KEY}:${telegramGroupId}`;
+        await this.client.multi()
+            .rPush(key, JSON.stringify(message))
+            .lTrim(key, -limit, -1)
+            .expire(key, this.CONTEXT_TTL)
+            .exec();
+    }
+
+    async takeContextMessages(telegramGroupId: string): Promise<ContextMessage[]> {
+        const key = `${this.CONTEXT_KEY}:${telegramGroupId}`;
+        const [values] = await this.client.multi()
+            .lRange(key, 0, -1)
+            .del(key)
+            .exec();
+        return (values as unknown as string[]).map(value => JSON.parse(value));
+    }
+
+    /**
+     * Appends to the group's held messages, keeping only the latest `limit` messages.
+     */
+    async holdMessage(telegramGroupId: string, message: Message, limit: number): Promise<void> {
+        const key = `${this.HELD_KEY}:${telegramGroupId}`;
+        await this.client.multi()
+            .rPush(key, JSON.stringify(message))
+            .lTrim(key, -limit, -1)
+            .expire(key, this.HELD_TTL)
+            .exec();
+    }
+
+    async takeHeldMessages(telegramGroupId: string): Promise<Message[]> {
+        const key = `${this.HELD_KEY}:${telegramGroupId}`;
+        const [values] = await this.client.multi()
+            .lRange(key, 0, -1)
+            .del(key)
+            .exec();
+        return (values as unknown as string[]).map(value => JSON.parse(value));
+    }
+
+    /**
+     * Stores the link between a Telegram message and an Intercom conversation part,
+     * indexed from both sides.
+     */
+    async saveMessageLink(link: MessageLink): Promise<void> {
+        const value = JSON.stringify(link);
+        await this.client.multi()
+            .set(`${this.MESSAGE_LINK_KEY}:tg:${link.telegramChatId}:${link.telegramMessageId}`, value, {
+                EX: this.MESSAGE_LINK_TTL
+            })
+            .set(`${this.MESSAGE_LINK_KEY}:ic:${link.intercomPartId}`, value, {
+                EX: this.MESSAGE_LINK_TTL
+            })
+            .exec();
+    }
+
+    async getMessageLinkByTelegramMessage(chatId: string, messageId: string): Promise<MessageLink | null> {
+        const value = await this.client.get(`${this.MESSAGE_LINK_KEY}:tg:${chatId}:${messageId}`);
+        return value ? JSON.parse(value) : null;
+    }
+
+    async getMessageLinkByIntercomPart(partId: string): Promise<MessageLink | null> {
+        const value = await this.client.get(`${this.MESSAGE_LINK_KEY}:ic:${partId}`);
+        return value ? JSON.parse(value) : null;
+    }
+
     async saveContactMapping(telegramUserId: string, intercomContactId: string): Promise<void> {
         const key = `${this.CONTACT_KEY}:${telegramUserId}`;
         await this.client.set(key, intercomContactId, {
             EX: this.CONTACT_TTL // Set expiration time
         });
-        console.log('Cached contact mapping:', {
+        log.info('Cached contact mapping', {
             telegramUserId,
             intercomContactId
         });
@@ -132,7 +622,7 @@ export class RedisService {
         const key = `${this.CONTACT_KEY}:${telegramUserId}`;
         const contactId = await this.client.get(key);
         if (contactId) {
-            console.log('Found cached contact:', {
+            log.debug('Found cached contact', {
                 telegramUserId,
                 intercomContactId: contactId
             });
@@ -140,15 +630,111 @@ export class RedisService {
         return contactId;
     }
 
+    async addConversationParticipant(conversationId: string, contactId: string): Promise<void> {
+        const key = `${this.PARTICIPANT_KEY}:${conversationId}`;
+        await this.client.sAdd(key, contactId);
+        await this.client.expire(key, this.MESSAGE_LINK_TTL);
+    }
+
+    async isConversationParticipant(conversationId: string, contactId: string): Promise<boolean> {
+        const key = `${this.PARTICIPANT_KEY}:${conversationId}`;
+        return await this.client.sIsMember(key, contactId);
+    }
+
     async invalidateContactMapping(telegramUserId: string): Promise<void> {
         const key = `${this.CONTACT_KEY}:${telegramUserId}`;
         await this.client.del(key);
-        console.log('Invalidated contact cache:', {
+        log.info('Invalidated contact cache', {
             telegramUserId
         });
     }
 
+    /**
+     * Pages through the cached contact mappings, see listGroupMappings for the cursor semantics.
+     */
+    async listContactMappings(cursor: number, count: number): Promise<{ contacts: ContactMapping[]; nextCursor: number }> {
+        const reply = await this.client.scan(cursor, {
+            MATCH: `${this.CONTACT_KEY}:*`,
+            COUNT: count
+        });
+        const contacts: ContactMapping[] = [];
+        for (const key of reply.keys) {
+            const intercomContactId = await this.client.get(key);
+            if (intercomContactId) {
+                contacts.push({
+                    telegramUserId: String(key).slice(this.CONTACT_KEY.length + 1),
+                    intercomContactId
+                });
+            }
+        }
+        return { contacts, nextCursor: reply.cursor };
+    }
+
+    /**
+     * Drops the whole contact cache, contacts are looked up in Intercom again on next use.
+     */
+    async flushContactMappings(): Promise<number> {
+        let flushed = 0;
+        for await (const key of this.client.scanIterator({ MATCH: `${this.CONTACT_KEY}:*` })) {
+            flushed += await this.client.del(key);
+        }
+        log.info('Flushed contact cache', { flushed });
+        return flushed;
+    }
+
+    async claimWebhookDelivery(notificationId: string, ttlSeconds: number): Promise<boolean> {
+        const key = `${this.WEBHOOK_DELIVERY_KEY}:${notificationId}`;
+        const result = await this.client.set(key, '1', {
+            NX: true, // Only the first delivery of a notification wins
+            EX: ttlSeconds
+        });
+        return result === 'OK';
+    }
+
+    async releaseWebhookDelivery(notificationId: string): Promise<void> {
+        const key = `${this.WEBHOOK_DELIVERY_KEY}:${notificationId}`;
+        await this.client.del(key);
+    }
+
+    /**
+     * Records an Intercom conversation part as processed.
+     * Resolves to true only for the first caller, so concurrent retries of the same
+     * part cannot both be forwarded.
+     */
+    async markIntercomPartProcessed(partId: string): Promise<boolean> {
+        return this.markProcessed(`${this.PROCESSED_PART_KEY}:${partId}`);
+    }
+
+    /**
+     * Records a Telegram message as processed. Message IDs are only unique per chat.
+     */
+    async markTelegramMessageProcessed(chatId: string, messageId: string): Promise<boolean> {
+        return this.markProcessed(`${this.PROCESSED_MESSAGE_KEY}:${chatId}:${messageId}`);
+    }
+
+    async unmarkIntercomPartProcessed(partId: string): Promise<void> {
+        await this.client.del(`${this.PROCESSED_PART_KEY}:${partId}`);
+    }
+
+    async unmarkTelegramMessageProcessed(chatId: string, messageId: string): Promise<void> {
+        await this.client.del(`${this.PROCESSED_MESSAGE_KEY}:${chatId}:${messageId}`);
+    }
+
+    private async markProcessed(key: string): Promise<boolean> {
+        const result = await this.client.set(key, Date.now().toString(), {
+            NX: true, // SET NX is atomic, only one concurrent delivery can claim the ID
+            EX: this.DEDUPE_TTL
+        });
+        return result === 'OK';
+    }
+
     async disconnect(): Promise<void> {
-        await this.client.disconnect();
+        if (this.client.isOpen) {
+            await this.client.disconnect();
+        }
+    }
+
+    async ping(): Promise<void> {
+        await this.client.ping();
     }
 } 
\ No newline at end of file
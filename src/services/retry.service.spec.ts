@@ -0,0 +1,111 @@
+import { RetryService } from './retry.service';
+import { MemoryStorageService } from './memory-storage.service';
+import { Message } from '../types';
+import { GROUP_ID, telegramMessage } from '../test-fixtures';
+
+describe('RetryService', () => {
+    let storage: MemoryStorageService;
+
+    beforeEach(async () => {
+        storage = new MemoryStorageService();
+        for (const id of ['1', '2', '3']) {
+            await storage.queueMessage(GROUP_ID, telegramMessage({ id }));
+        }
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('delivers every entry once when a group is drained twice in parallel', async () => {
+        const retry = new RetryService(storage, { intervalMs: 60000 });
+        const delivered: string[] = [];
+        retry.start(async (_groupId, message) => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            delivered.push(message.id);
+        });
+
+        await Promise.all([retry.drainGroup(GROUP_ID), retry.drainGroup(GROUP_ID)]);
+        await retry.stop();
+
+        expect(delivered).toEqual(['1', '2', '3']);
+        expect(await storage.getQueueLength(GROUP_ID)).toBe(0);
+    });
+
+    it('delivers every entry once when two workers share the storage', async () => {
+        const delivered: string[] = [];
+        const handler = async (_groupId: string, message: Message): Promise<void> => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            delivered.push(message.id);
+        };
+        const workers = [new RetryService(storage, { intervalMs: 60000 }), new RetryService(storage, { intervalMs: 60000 })];
+        workers.forEach(worker => worker.start(handler));
+
+        await Promise.all(workers.map(worker => worker.drainGroup(GROUP_ID)));
+        await Promise.all(workers.map(worker => worker.stop()));
+
+        expect(delivered).toEqual(['1', '2', '3']);
+    });
+
+    it('keeps the queue lock alive while a slow delivery runs past its timeout', async () => {
+        jest.useFakeTimers();
+        const retry = new RetryService(storage, { intervalMs: 600000 });
+        let finishDelivery: () => void = () => undefined;
+        retry.start(async () => {
+            await new Promise<void>(resolve => {
+                finishDelivery = resolve;
+            });
+        });
+
+        const drain = retry.drainGroup(GROUP_ID);
+        // Twice the lock timeout, the lock would have expired without being extended
+        await jest.advanceTimersByTimeAsync(120000);
+
+        expect(await storage.acquireQueueLock(GROUP_ID, 'other-worker', 60)).toBe(false);
+
+        finishDelivery();
+        await jest.advanceTimersByTimeAsync(0);
+        finishDelivery();
+        await jest.advanceTimersByTimeAsync(0);
+        finishDelivery();
+        await drain;
+        await retry.stop();
+        expect(await storage.getQueueLength(GROUP_ID)).toBe(0);
+    });
+
+    it('stops draining and leaves the lock alone once another worker took it over', async () => {
+        const retry = new RetryService(storage, { intervalMs: 60000 });
+        const delivered: string[] = [];
+        const realNow = Date.now;
+        retry.start(async (_groupId, message) => {
+            delivered.push(message.id);
+            // The lock expires during the delivery and another worker takes it
+            const later = realNow() + 61000;
+            jest.spyOn(Date, 'now').mockImplementation(() => later);
+            await storage.acquireQueueLock(GROUP_ID, 'other-worker', 60);
+        });
+
+        await retry.drainGroup(GROUP_ID);
+        await retry.stop();
+        jest.restoreAllMocks();
+
+        expect(delivered).toEqual(['1']);
+        expect((await storage.getQueuedMessages(GROUP_ID)).map(message => message.id)).toEqual(['2', '3']);
+        // The other worker's lock survived the first drain's release
+        expect(await storage.extendQueueLock(GROUP_ID, 'other-worker', 60)).toBe(true);
+    });
+
+    it('keeps the progress a failed delivery recorded on its message', async () => {
+        const retry = new RetryService(storage, { intervalMs: 60000 });
+        retry.start(async (_groupId, message) => {
+            message.deliveredParts = ['901'];
+            throw new Error('Bad Gateway');
+        });
+
+        await retry.drainGroup(GROUP_ID);
+        await retry.stop();
+
+        const entry = await storage.peekQueuedMessage(GROUP_ID);
+        expect(entry).toMatchObject({ attempts: 1, lastError: 'Bad Gateway', message: { id: '1', deliveredParts: ['901'] } });
+    });
+});
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { BridgeStorage } from './storage';
+import { Message, MessageDirection, QueuedMessage } from '../types';
+import { logger, withCorrelationId } from '../utils/logger';
+import { messageFailures } from '../utils/metrics';
+
+const log = logger.child({ component: 'retry' });
+
+export type QueuedMessageHandler = (groupId: string, message: Message) => Promise<void>;
+
+/**
+ * How failed deliveries of a direction are treated, every hook is optional.
+ */
+export interface DeliveryPolicy {
+    retryAfter?(error: unknown): number | undefined; // Milliseconds the receiving API asked to wait
+    isPermanent?(error: unknown): boolean; // Dead-letter right away, retrying cannot succeed
+    onDeadLetter?(entry: QueuedMessage): Promise<void>;
+}
+
+export interface RetryOptions {
+    intervalMs: number; // How often all queues are scanned
+    maxAttempts: number; // Attempts before a message is dead-lettered
+    baseDelayMs: number; // Delay after the first failed attempt
+    maxDelayMs: number; // Upper bound for the exponential backoff
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    intervalMs: 15000,
+    maxAttempts: 8,
+    baseDelayMs: 30000,
+    maxDelayMs: 3600000
+};
+
+export class RetryService {
+    private readonly options: RetryOptions;
+    private readonly QUEUE_LOCK_TTL = 60; // Queue lock timeout in seconds, extended while draining
+    private handler?: QueuedMessageHandler;
+    private policy: DeliveryPolicy = {};
+    private timer?: NodeJS.Timeout;
+    private draining = false;
+    private stopping = false;
+    private activeDrains = new Set<Promise<void>>();
+    private drainingGroups = new Set<string>(); // Groups this process is draining right now
+    private lockedGroups = new Map<string, string>(); // Groups whose queue lock this instance holds, with the owner token
+
+    constructor(
+        private storage: BridgeStorage,
+        options: Partial<RetryOptions> = {},
+        private direction: MessageDirection = 'telegram_to_intercom' // Queues the worker drains
+    ) {
+        // Unset options fall back to the defaults
+        const overrides = Object.fromEntries(
+            Object.entries(options).filter(([, value]) => value !== undefined)
+        );
+        this.options = { ...DEFAULT_RETRY_OPTIONS, ...overrides };
+    }
+
+    start(handler: QueuedMessageHandler, policy: DeliveryPolicy = {}): void {
+        this.handler = handler;
+        this.policy = policy;
+        this.stopping = false;
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.drainAll().catch(error => {
+                log.error('Error draining message queues', { error });
+            });
+        }, this.options.intervalMs);
+
+        log.info('Retry worker started', { direction: this.direction, ...this.options });
+    }
+
+    /**
+     * Stops scheduling deliveries and resolves once the deliveries in progress are done.
+     * Queues are left as they are, messages not delivered yet stay queued.
+     */
+    async stop(): Promise<void> {
+        this.stopping = true;
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+
+        await Promise.allSettled(this.activeDrains);
+        log.info('Retry worker stopped', { direction: this.direction });
+    }
+
+    /**
+     * Releases the queue locks held by deliveries that didn't finish in time, so other
+     * instances can take over the queues without waiting for the locks to expire.
+     */
+    async releaseLocks(): Promise<void> {
+        for (const [groupId, owner] of this.lockedGroups) {
+            await this.storage.releaseQueueLock(groupId, owner, this.direction).catch(error => {
+                log.error('Error releasing queue lock', { groupId, error });
+            });
+        }
+        this.lockedGroups.clear();
+    }
+
+    async drainAll(): Promise<void> {
+        // Skip the tick if the previous one is still running
+        if (this.draining) {
+            return;
+        }
+
+        this.draining = true;
+        try {
+            const groupIds = await this.storage.getQueuedGroups(this.direction);
+            for (const groupId of groupIds) {
+                if (this.stopping) {
+                    break;
+                }
+                await this.drainGroup(groupId);
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    /**
+     * Delivers a group's queued messages oldest first. Processing stops at the first
+     * message that is not due yet or fails, so messages of a group keep their order.
+     * Entries are only removed from the queue after they were delivered or dead-lettered.
+     */
+    async drainGroup(groupId: string): Promise<void> {
+        const drain = this.drainQueue(groupId);
+        this.activeDrains.add(drain);
+        try {
+            await drain;
+        } finally {
+            this.activeDrains.delete(drain);
+        }
+    }
+
+    private async drainQueue(groupId: string): Promise<void> {
+        const handler = this.handler;
+        if (!handler) {
+            log.warn('Retry worker has no handler, skipping queue', { groupId });
+            return;
+        }
+        // The drain in progress picks up entries queued meanwhile
+        if (this.stopping || this.drainingGroups.has(groupId)) {
+            return;
+        }
+
+        this.drainingGroups.add(groupId);
+        try {
+            await this.drainLocked(groupId, handler);
+        } finally {
+            this.drainingGroups.delete(groupId);
+        }
+    }
+
+    /**
+     * Drains the queue under its lock. The lock is extended before every attempt and while
+     * an attempt runs, throttled deliveries can take longer than its timeout. A drain that
+     * lost its lock stops, so no entry is delivered by two drains at once.
+     */
+    private async drainLocked(groupId: string, handler: QueuedMessageHandler): Promise<void> {
+        const owner = crypto.randomUUID();
+        const lockAcquired = await this.storage.acquireQueueLock(groupId, owner, this.QUEUE_LOCK_TTL, this.direction);
+        if (!lockAcquired) {
+            return;
+        }
+
+        this.lockedGroups.set(groupId, owner);
+        const heartbeat = setInterval(() => {
+            this.storage.extendQueueLock(groupId, owner, this.QUEUE_LOCK_TTL, this.direction).catch(error => {
+                log.error('Error extending queue lock', { groupId, error });
+            });
+        }, this.QUEUE_LOCK_TTL * 1000 / 3);
+        heartbeat.unref();
+        try {
+            let entry = await this.storage.peekQueuedMessage(groupId, this.direction);
+            if (!entry) {
+                await this.storage.pruneQueuedGroup(groupId, this.direction);
+                return;
+            }
+
+            while (entry && entry.nextAttemptAt <= Date.now() && !this.stopping) {
+                if (!await this.storage.extendQueueLock(groupId, owner, this.QUEUE_LOCK_TTL, this.direction)) {
+                    log.warn('Lost queue lock, leaving the queue to its new owner', {
+                        groupId,
+                        direction: this.direction
+                    });
+                    return;
+                }
+
+                // Log lines of the retry carry the ID the message was first handled under
+                const current = entry;
+                const delivered = await withCorrelationId(
+                    current.message.correlationId,
+                    () => this.attemptDelivery(handler, current)
+                );
+                if (!delivered) {
+                    break;
+                }
+                entry = await this.storage.peekQueuedMessage(groupId, this.direction);
+            }
+
+            if (!entry) {
+                await this.storage.pruneQueuedGroup(groupId, this.direction);
+            }
+        } finally {
+            clearInterval(heartbeat);
+            this.lockedGroups.delete(groupId);
+            await this.storage.releaseQueueLock(groupId, owner, this.direction);
+        }
+    }
+
+    private async attemptDelivery(handler: QueuedMessageHandler, entry: QueuedMessage): Promise<boolean> {
+        try {
+            await handler(entry.groupId, entry.message);
+            await this.storage.removeQueuedMessage(entry.groupId, this.direction);
+            log.info('Queued message delivered', {
+                groupId: entry.groupId,
+                direction: this.direction,
+                messageId: entry.message.id,
+                attempts: entry.attempts + 1
+            });
+            return true;
+        } catch (error) {
+            // Being told to slow down doesn't count as a failed attempt
+            const retryAfter = this.policy.retryAfter?.(error);
+            const attempts = retryAfter === undefined ? entry.attempts + 1 : entry.attempts;
+            // The handler may have recorded progress on the message, it is stored with the entry
+            const failed: QueuedMessage = {
+                ...entry,
+                direction: this.direction,
+                attempts,
+                lastError: error instanceof Error ? error.message : String(error)
+            };
+
+            if (this.policy.isPermanent?.(error) || attempts >= this.options.maxAttempts) {
+                await this.storage.moveToDeadLetter(failed);
+                messageFailures.inc({ direction: this.direction, reason: 'dead_lettered' });
+                await this.policy.onDeadLetter?.(failed).catch(hookError => {
+                    log.error('Error handling dead-lettered message', { groupId: entry.groupId, error: hookError });
+                });
+                // The next entry may be deliverable, keep draining
+                return true;
+            }
+
+            failed.nextAttemptAt = Date.now() + (retryAfter ?? this.getBackoffDelay(attempts));
+            await this.storage.updateQueuedMessage(failed);
+            log.warn('Queued message delivery failed, retrying later', {
+                groupId: entry.groupId,
+                direction: this.direction,
+                messageId: entry.message.id,
+                attempts,
+                nextAttemptAt: new Date(failed.nextAttemptAt).toISOString(),
+                error: failed.lastError
+            });
+            return false;
+        }
+    }
+
+    private getBackoffDelay(attempts: number): number {
+        const delay = this.options.baseDelayMs * Math.pow(2, attempts - 1);
+        // Up to 10% jitter so queues that failed together don't retry in lockstep
+        const jitter = Math.random() * delay * 0.1;
+        return Math.min(delay + jitter, this.options.maxDelayMs);
+    }
+
+    async getDeadLetters(groupId?: string): Promise<QueuedMessage[]> {
+        return await this.storage.getDeadLetters(groupId, this.direction);
+    }
+
+    async replayDeadLetters(groupId?: string): Promise<number> {
+        const replayed = await this.storage.replayDeadLetters(groupId, this.direction);
+        if (replayed > 0 && groupId) {
+            await this.drainGroup(groupId);
+        }
+        return replayed;
+    }
+}
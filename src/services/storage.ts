@@ -0,0 +1,104 @@
+import {
+    ContactMapping,
+    ContextMessage,
+    ConversationHistoryEntry,
+    ConversationState,
+    GroupAccess,
+    GroupMapping,
+    GroupSettings,
+    Message,
+    MessageDirection,
+    MessageLink,
+    QueuedMessage
+} from '../types';
+
+/**
+ * Everything the bridge persists. RedisService stores it in Redis and is shared between
+ * instances, MemoryStorageService keeps it in process for tests and single-instance setups.
+ */
+export interface BridgeStorage {
+    /**
+     * Resolves once the backend is ready to use. Safe to call more than once.
+     */
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    /**
+     * Rejects if the backend can't be reached, used by the readiness check.
+     */
+    ping(): Promise<void>;
+
+    // Conversation creation locks, like queue locks only the owner can release them
+    acquireLock(telegramGroupId: string, owner: string): Promise<boolean>;
+    releaseLock(telegramGroupId: string, owner: string): Promise<void>;
+
+    // Per-group retry queues, consumed oldest first. Each direction has its own queues and
+    // dead letters, the direction defaults to Telegram to Intercom.
+    queueMessage(groupId: string, message: Message, direction?: MessageDirection): Promise<void>;
+    getQueuedMessages(groupId: string, direction?: MessageDirection): Promise<Message[]>;
+    getQueuedEntries(groupId: string, direction?: MessageDirection): Promise<QueuedMessage[]>;
+    getQueuedGroups(direction?: MessageDirection): Promise<string[]>;
+    pruneQueuedGroup(groupId: string, direction?: MessageDirection): Promise<void>;
+    peekQueuedMessage(groupId: string, direction?: MessageDirection): Promise<QueuedMessage | null>;
+    removeQueuedMessage(groupId: string, direction?: MessageDirection): Promise<void>;
+    updateQueuedMessage(entry: QueuedMessage): Promise<void>;
+    // Queue locks belong to the owner token they were taken with, only the owner can extend
+    // or release them
+    acquireQueueLock(groupId: string, owner: string, ttlSeconds: number, direction?: MessageDirection): Promise<boolean>;
+    extendQueueLock(groupId: string, owner: string, ttlSeconds: number, direction?: MessageDirection): Promise<boolean>;
+    releaseQueueLock(groupId: string, owner: string, direction?: MessageDirection): Promise<void>;
+    moveToDeadLetter(entry: QueuedMessage): Promise<void>;
+    getDeadLetters(groupId?: string, direction?: MessageDirection): Promise<QueuedMessage[]>;
+    getDeadLetterCount(direction?: MessageDirection): Promise<number>;
+    replayDeadLetters(groupId?: string, direction?: MessageDirection): Promise<number>;
+    clearMessageQueue(groupId: string, direction?: MessageDirection): Promise<void>;
+    getQueueLength(groupId: string, direction?: MessageDirection): Promise<number>;
+
+    // Group to conversation mappings
+    saveGroupMapping(mapping: GroupMapping): Promise<void>;
+    getGroupMapping(telegramGroupId: string): Promise<GroupMapping | null>;
+    updateConversationState(telegramGroupId: string, state: ConversationState): Promise<void>;
+    setGroupMappingActive(telegramGroupId: string, active: boolean): Promise<void>;
+    archiveGroupMapping(telegramGroupId: string, reason: string): Promise<void>;
+    getConversationHistory(telegramGroupId: string): Promise<ConversationHistoryEntry[]>;
+    listGroupMappings(cursor: number, count: number): Promise<{ mappings: GroupMapping[]; nextCursor: number }>;
+    getIntercomConversation(telegramGroupId: string): Promise<string | null>;
+    getTelegramGroup(intercomConversationId: string): Promise<string | null>;
+    updateLastMessageId(telegramGroupId: string, messageId: string): Promise<void>;
+    getGroupSettings(telegramGroupId: string): Promise<GroupSettings>;
+    updateGroupSettings(telegramGroupId: string, settings: GroupSettings): Promise<GroupSettings>;
+
+    // Approval of the groups the bot was added to
+    saveGroupAccess(access: GroupAccess): Promise<void>;
+    getGroupAccess(telegramGroupId: string): Promise<GroupAccess | null>;
+    listGroupAccess(): Promise<GroupAccess[]>;
+
+    // Recent messages of a group that were not forwarded, handed to the next forwarded message
+    addContextMessage(telegramGroupId: string, message: ContextMessage, limit: number): Promise<void>;
+    takeContextMessages(telegramGroupId: string): Promise<ContextMessage[]>;
+
+    // Messages of a group awaiting approval, forwarded once it is approved
+    holdMessage(telegramGroupId: string, message: Message, limit: number): Promise<void>;
+    takeHeldMessages(telegramGroupId: string): Promise<Message[]>;
+
+    // Links between Telegram messages and Intercom conversation parts
+    saveMessageLink(link: MessageLink): Promise<void>;
+    getMessageLinkByTelegramMessage(chatId: string, messageId: string): Promise<MessageLink | null>;
+    getMessageLinkByIntercomPart(partId: string): Promise<MessageLink | null>;
+
+    // Contact cache
+    saveContactMapping(telegramUserId: string, intercomContactId: string): Promise<void>;
+    getContactMapping(telegramUserId: string): Promise<string | null>;
+    invalidateContactMapping(telegramUserId: string): Promise<void>;
+    listContactMappings(cursor: number, count: number): Promise<{ contacts: ContactMapping[]; nextCursor: number }>;
+    flushContactMappings(): Promise<number>;
+    addConversationParticipant(conversationId: string, contactId: string): Promise<void>;
+    isConversationParticipant(conversationId: string, contactId: string): Promise<boolean>;
+
+    // Webhook replay protection and message dedupe
+    claimWebhookDelivery(notificationId: string, ttlSeconds: number): Promise<boolean>;
+    releaseWebhookDelivery(notificationId: string): Promise<void>;
+    markIntercomPartProcessed(partId: string): Promise<boolean>;
+    markTelegramMessageProcessed(chatId: string, messageId: string): Promise<boolean>;
+    unmarkIntercomPartProcessed(partId: string): Promise<void>;
+    unmarkTelegramMessageProcessed(chatId: string, messageId: string): Promise<void>;
+}
@@ -0,0 +1,78 @@
+import { Update } from 'telegraf/types';
+import { TelegramOptions, TelegramService } from './telegram.service';
+import { HttpService } from './http.service';
+import { BotCommand, Message } from '../types';
+
+const GROUP_ID = -100200;
+
+function commandUpdate(text: string): Update {
+    const command = text.split(' ')[0];
+    return {
+        update_id: 1,
+        message: {
+            message_id: 41,
+            date: Math.floor(Date.now() / 1000),
+            chat: { id: GROUP_ID, type: 'supergroup', title: 'Customers' },
+            from: { id: 555, is_bot: false, first_name: 'Bob' },
+            text,
+            entities: [{ type: 'bot_command', offset: 0, length: command.length }]
+        }
+    } as Update;
+}
+
+describe('TelegramService commands', () => {
+    function createService(options: TelegramOptions = {}): {
+        telegram: TelegramService;
+        messages: Message[];
+        commands: BotCommand[];
+        sendMessage: jest.SpyInstance;
+        getChatMember: jest.SpyInstance;
+    } {
+        const telegram = new TelegramService('123:test-token', new HttpService(), options);
+        const bot = telegram['bot'];
+        // Known up front, so handling an update needs no getMe request
+        bot.botInfo = {
+            id: 999,
+            is_bot: true,
+            first_name: 'Bridge',
+            username: 'bridge_bot',
+            can_join_groups: true,
+            can_read_all_group_messages: true,
+            supports_inline_queries: false
+        };
+        const messages: Message[] = [];
+        const commands: BotCommand[] = [];
+        telegram.on('message', (message: Message) => messages.push(message));
+        telegram.on('command', (command: BotCommand) => commands.push(command));
+        return {
+            telegram,
+            messages,
+            commands,
+            sendMessage: jest.spyOn(telegram, 'sendMessage').mockResolvedValue('900'),
+            getChatMember: jest.spyOn(bot.telegram, 'getChatMember')
+                .mockResolvedValue({ status: 'member', user: { id: 555, is_bot: false, first_name: 'Bob' } })
+        };
+    }
+
+    it('refuses commands from members who are not administrators', async () => {
+        const { telegram, messages, commands, sendMessage } = createService();
+
+        await telegram['bot'].handleUpdate(commandUpdate('/status'));
+
+        expect(sendMessage).toHaveBeenCalledWith(String(GROUP_ID), 'Only group administrators can use bot commands.', '41');
+        expect(commands).toHaveLength(0);
+        expect(messages).toHaveLength(0);
+    });
+
+    it('forwards commands as ordinary messages without answering when commands are disabled', async () => {
+        const { telegram, messages, commands, sendMessage, getChatMember } = createService({ commandsEnabled: false });
+
+        await telegram['bot'].handleUpdate(commandUpdate('/status please'));
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0]).toMatchObject({ id: '41', event: 'new', text: '/status please' });
+        expect(commands).toHaveLength(0);
+        expect(sendMessage).not.toHaveBeenCalled();
+        expect(getChatMember).not.toHaveBeenCalled();
+    });
+});
@@ -1,13 +1,24 @@
-import { Telegraf, Context } from 'telegraf';
-import { Message } from '../types';
+import { Telegraf, Context, TelegramError } from 'telegraf';
+import { Attachment, BotCommand, MembershipChange, Message, MessageEvent, TextEntity } from '../types';
 import { EventEmitter } from 'events';
 import { 
     Update, 
     Message as TelegramMessage,
     Chat,
+    ChatMember,
     User
 } from 'telegraf/types';
 import { HttpsProxyAgent } from 'https-proxy-agent';
+import https from 'https';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { HttpService, timeWebhook } from './http.service';
+import { getCorrelationId, logger, withCorrelationId } from '../utils/logger';
+import { splitHtml } from '../utils/formatting';
+import { RateLimiter } from '../utils/rate-limiter';
+import { rateLimitResponses } from '../utils/metrics';
+
+const log = logger.child({ component: 'telegram' });
 
 // Define group message type
 type TelegramGroupMessage = {
@@ -25,60 +36,128 @@ type TelegramGroupMessage = {
         last_name?: string;
         username?: string;
     };
+    sender_chat?: {
+        id: number;
+    };
     text?: string;
+    entities?: TextEntity[];
+    caption_entities?: TextEntity[];
     photo?: Array<any>;
     document?: any;
+    edit_date?: number;
+    message_thread_id?: number;
+    is_topic_message?: boolean;
+    reply_to_message?: {
+        message_id: number;
+        text?: string;
+        caption?: string;
+        from?: {
+            first_name: string;
+            last_name?: string;
+        };
+    };
 };
 
+interface ParsedCommand {
+    name: string;
+    args: string[];
+    forThisBot: boolean; // False for commands addressed to another bot with /command@other_bot
+}
+
 interface MessageContent {
     type: string;
     content: any;
     caption?: string;
 }
 
+export type MediaKind = 'photo' | 'video' | 'audio' | 'document';
+
+export interface OutgoingMedia {
+    kind: MediaKind;
+    url: string;
+    caption?: string; // HTML, must already be escaped
+    fileName?: string;
+}
+
+export interface TelegramWebhookOptions {
+    url: string; // Public base URL Telegram can reach, e.g. https://bridge.example.com
+    path: string; // Path of the update endpoint on the HTTP server
+    secretToken: string; // Sent back by Telegram in X-Telegram-Bot-Api-Secret-Token
+}
+
+export interface TelegramOptions {
+    // Receive updates through the HTTP server instead of long polling
+    webhook?: TelegramWebhookOptions;
+    proxyUrl?: string; // Proxy for all Bot API requests and file downloads
+    // Handle bot commands, when off they are forwarded like any other message
+    commandsEnabled?: boolean;
+}
+
+export interface DownloadedFile {
+    data: Buffer;
+    filePath?: string;
+}
+
 export class TelegramService extends EventEmitter {
     private bot: Telegraf;
+    private agent?: HttpsProxyAgent<string>;
+    // The Bot API refuses to serve files larger than this through getFile
+    readonly MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+    private readonly MAX_MESSAGE_LENGTH = 4096; // Characters of text after parsing the HTML
+    private readonly MAX_CAPTION_LENGTH = 1024;
+    private readonly MAX_RATE_LIMIT_RETRIES = 3; // Attempts of a request Telegram answers with 429
+    private readonly MAX_INLINE_RETRY_AFTER = 30000; // Longer waits are left to the outbound queue
+    // Telegram allows a group about 20 messages a minute and a bot about 30 messages a second
+    private readonly chatLimiter = new RateLimiter('telegram_chat', { capacity: 3, perSecond: 20 / 60 });
+    private readonly globalLimiter = new RateLimiter('telegram_global', { capacity: 30, perSecond: 30 });
+    private readonly SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+    private readonly ADMIN_CACHE_TTL = 300000; // How long a group's administrator list is reused, in milliseconds
+    private adminCache = new Map<string, { userIds: Set<string>; expiresAt: number }>();
+    private receivingUpdates = false;
     
-    constructor(token: string) {
+    constructor(
+        token: string,
+        private httpService: HttpService,
+        private options: TelegramOptions = {}
+    ) {
         super();
         
-        // Configure HTTP proxy from environment variables
-        const proxyUrl = process.env.http_proxy || process.env.https_proxy;
-        console.log('Using proxy:', proxyUrl);
-        
-        // Create proxy agent
-        // @ts-ignore - Type issue with https-proxy-agent
-        const agent = new HttpsProxyAgent(proxyUrl);
+        // Route Bot API requests through the configured proxy, if any
+        if (options.proxyUrl) {
+            this.agent = new HttpsProxyAgent(options.proxyUrl);
+            log.info('Using proxy for Telegram', { proxy: options.proxyUrl.replace(/\/\/[^@/]*@/, '//***@') });
+        }
         
         // Initialize bot with proxy
         this.bot = new Telegraf(token, {
             telegram: {
                 apiRoot: 'https://api.telegram.org',
-                agent,
+                agent: this.agent,
                 testEnv: false,
                 apiMode: 'bot',
                 webhookReply: false
             }
         });
 
-        // Add middleware for request logging
-        this.bot.use(async (ctx, next) => {
+        // Add middleware for request logging, every update gets its own correlation ID
+        this.bot.use((ctx, next) => withCorrelationId(undefined, async () => {
             const startTime = Date.now();
-            console.log('Telegram API Request:', {
+            log.debug('Telegram API Request', {
+                updateId: ctx.update.update_id,
                 updateType: ctx.updateType,
                 chatId: ctx.chat?.id,
                 messageId: ctx.message?.message_id,
-                from: ctx.message?.from
+                fromId: ctx.message?.from?.id
             });
             
             await next();
             
             const ms = Date.now() - startTime;
-            console.log('Telegram API Response:', {
+            log.debug('Telegram API Response', {
                 updateType: ctx.updateType,
                 processingTime: `${ms}ms`
             });
-        });
+        }));
         
         this.setupEventHandlers();
     }
@@ -89,19 +168,26 @@ export class TelegramService extends EventEmitter {
             // Only process group messages
             if (ctx.chat?.type !== 'group' && ctx.chat?.type !== 'supergroup') return;
 
-            console.log('Received group message:', {
+            log.info('Received group message', {
                 chatId: ctx.chat.id,
                 chatTitle: ctx.chat.title,
                 messageId: ctx.message?.message_id,
-                from: ctx.message?.from,
-                content: ctx.message ? this.getMessageContent(ctx.message) : undefined
+                fromId: ctx.message?.from?.id,
+                contentType: ctx.message ? this.getMessageContent(ctx.message).type : undefined
             });
 
-            const message = this.convertToMessage(ctx);
+            // Commands are handled by the bot and never forwarded
+            const command = this.parseCommand(ctx.message, ctx.me);
+            if (command) {
+                await this.handleCommand(ctx.message as TelegramGroupMessage, command);
+                return;
+            }
+
+            const message = this.convertToMessage(ctx.message, 'new');
             if (message) {
-                console.log('Processed group message:', {
+                log.debug('Processed group message', {
                     id: message.id,
-                    sender: message.sender,
+                    senderId: message.sender.id,
                     text: message.text,
                     hasAttachments: message.attachments ? message.attachments.length : 0
                 });
@@ -109,10 +195,57 @@ export class TelegramService extends EventEmitter {
             }
         });
 
+        // Handle corrections of earlier group messages
+        this.bot.on('edited_message', async (ctx) => {
+            if (ctx.chat?.type !== 'group' && ctx.chat?.type !== 'supergroup') return;
+            if (this.parseCommand(ctx.editedMessage, ctx.me)) return;
+
+            const message = this.convertToMessage(ctx.editedMessage, 'edit');
+            if (message) {
+                log.info('Processed edited group message', {
+                    id: message.id,
+                    editedAt: message.editedAt,
+                    senderId: message.sender.id
+                });
+                this.emit('message', message);
+            }
+        });
+
+        // The bot being added to or removed from a group
+        this.bot.on('my_chat_member', async (ctx) => {
+            const update = ctx.myChatMember;
+            if (update.chat.type !== 'group' && update.chat.type !== 'supergroup') return;
+
+            const wasMember = this.isMemberStatus(update.old_chat_member);
+            const isMember = this.isMemberStatus(update.new_chat_member);
+            if (wasMember === isMember) {
+                // Promotions and restrictions don't change whether the bot is in the group
+                return;
+            }
+
+            const change: MembershipChange = {
+                kind: isMember ? 'added' : 'removed',
+                groupId: update.chat.id.toString(),
+                groupName: update.chat.title || 'Unknown Group',
+                changedBy: {
+                    id: update.from.id.toString(),
+                    name: [update.from.first_name, update.from.last_name].filter(Boolean).join(' ') || 'Unknown User',
+                    username: update.from.username
+                },
+                timestamp: update.date * 1000
+            };
+            log.info('Bot membership changed', {
+                groupId: change.groupId,
+                kind: change.kind,
+                userId: change.changedBy.id
+            });
+            this.emit('membership', change);
+        });
+
         // Handle errors
         this.bot.catch((err: unknown, ctx: Context<Update>) => {
-            console.error('Telegram bot error:', err);
-            console.error('Error context:', {
+            log.error('Telegram bot error', {
+                error: err,
                 chatId: ctx.chat?.id,
                 chatType: ctx.chat?.type,
                 updateType: ctx.updateType
@@ -121,6 +254,106 @@ export class TelegramService extends EventEmitter {
         });
     }
 
+    private parseCommand(msg: TelegramMessage, botUsername?: string): ParsedCommand | null {
+        if (this.options.commandsEnabled === false) {
+            return null;
+        }
+        const groupMsg = msg as TelegramGroupMessage;
+        const entity = groupMsg.entities?.[0];
+        if (!groupMsg.text || entity?.type !== 'bot_command' || entity.offset !== 0) {
+            return null;
+        }
+
+        const [command, mention] = groupMsg.text.slice(1, entity.length).split('@');
+        return {
+            name: command.toLowerCase(),
+            args: groupMsg.text.slice(entity.length).trim().split(/\s+/).filter(Boolean),
+            forThisBot: !mention || mention.toLowerCase() === botUsername?.toLowerCase()
+        };
+    }
+
+    private async handleCommand(msg: TelegramGroupMessage, command: ParsedCommand): Promise<void> {
+        if (!command.forThisBot) {
+            return;
+        }
+
+        const groupId = msg.chat.id.toString();
+        const messageId = msg.message_id.toString();
+        if (!await this.isChatAdmin(msg)) {
+            log.info('Ignoring command from non-administrator', {
+                groupId,
+                command: command.name,
+                userId: msg.from.id
+            });
+            await this.sendMessage(groupId, 'Only group administrators can use bot commands.', messageId);
+            return;
+        }
+
+        const botCommand: BotCommand = {
+            name: command.name,
+            args: command.args,
+            messageId,
+            groupId,
+            groupName: msg.chat.title || 'Unknown Group',
+            sender: {
+                id: msg.from.id.toString(),
+                name: [msg.from.first_name, msg.from.last_name].filter(Boolean).join(' ') || 'Unknown User',
+                username: msg.from.username
+            },
+            timestamp: msg.date * 1000
+        };
+        log.info('Processed bot command', {
+            groupId,
+            command: botCommand.name,
+            args: botCommand.args,
+            userId: botCommand.sender.id
+        });
+        this.emit('command', botCommand);
+    }
+
+    private async isChatAdmin(msg: TelegramGroupMessage): Promise<boolean> {
+        // Anonymous administrators post on behalf of the group itself
+        if (msg.sender_chat?.id === msg.chat.id) {
+            return true;
+        }
+
+        const member = await this.bot.telegram.getChatMember(msg.chat.id, msg.from.id);
+        return member.status === 'creator' || member.status === 'administrator';
+    }
+
+    /**
+     * Whether the user administers the group. The administrator list is cached for a few
+     * minutes, as this is asked for every message in groups that only forward members.
+     */
+    async isGroupAdmin(groupId: string, userId: string): Promise<boolean> {
+        let admins = this.adminCache.get(groupId);
+        if (!admins || admins.expiresAt <= Date.now()) {
+            const members = await this.bot.telegram.getChatAdministrators(groupId);
+            admins = {
+                userIds: new Set(members.map(member => member.user.id.toString())),
+                expiresAt: Date.now() + this.ADMIN_CACHE_TTL
+            };
+            this.adminCache.set(groupId, admins);
+        }
+        return admins.userIds.has(userId);
+    }
+
+    private mentionsBot(text: string, entities?: TextEntity[]): boolean {
+        const username = this.bot.botInfo?.username?.toLowerCase();
+        if (!username || !entities) {
+            return false;
+        }
+        return entities.some(entity => entity.type === 'mention'
+            && text.slice(entity.offset + 1, entity.offset + entity.length).toLowerCase() === username);
+    }
+
+    private isMemberStatus(member: ChatMember): boolean {
+        if (member.status === 'restricted') {
+            return member.is_member;
+        }
+        return member.status !== 'left' && member.status !== 'kicked';
+    }
+
     private getMessageContent(msg: TelegramMessage): MessageContent {
         // Check for text content
         if ('text' in msg && msg.text) {
@@ -183,15 +416,14 @@ export class TelegramService extends EventEmitter {
         return { type: 'unknown', content: msg };
     }
 
-    private convertToMessage(ctx: Context): Message | null {
-        const msg = ctx.message;
+    private convertToMessage(msg: TelegramMessage | undefined, event: MessageEvent): Message | null {
         if (!msg || !('message_id' in msg)) return null;
 
         // Only process group messages
         if (msg.chat.type !== 'group' && msg.chat.type !== 'supergroup') return null;
 
         const groupMsg = msg as TelegramGroupMessage;
-        const attachments = [];
+        const attachments: Attachment[] = [];
         const content = this.getMessageContent(groupMsg as unknown as TelegramMessage);
         let messageText = '';
 
@@ -202,31 +434,47 @@ export class TelegramService extends EventEmitter {
             messageText = content.caption || '';
             attachments.push({
                 type: 'image',
-                url: content.content.file_id
+                fileId: content.content.file_id,
+                fileName: `photo_${groupMsg.message_id}.jpg`,
+                mimeType: 'image/jpeg', // Telegram re-encodes photos as JPEG
+                size: content.content.file_size
             });
         } else if (content.type === 'document') {
             messageText = content.caption || '';
             attachments.push({
                 type: 'file',
-                url: content.content.file_id
+                fileId: content.content.file_id,
+                fileName: content.content.file_name,
+                mimeType: content.content.mime_type,
+                size: content.content.file_size
             });
         } else if (content.type === 'video') {
             messageText = content.caption || '';
             attachments.push({
                 type: 'video',
-                url: content.content.file_id
+                fileId: content.content.file_id,
+                fileName: content.content.file_name || `video_${groupMsg.message_id}.mp4`,
+                mimeType: content.content.mime_type,
+                size: content.content.file_size
             });
         } else if (content.type === 'audio' || content.type === 'voice') {
             messageText = content.caption || '';
             attachments.push({
                 type: 'audio',
-                url: content.content.file_id
+                fileId: content.content.file_id,
+                fileName: content.content.file_name || `voice_${groupMsg.message_id}.ogg`,
+                mimeType: content.content.mime_type,
+                size: content.content.file_size
             });
         } else if (content.type === 'sticker') {
-            messageText = '[Sticker]';
+            messageText = content.content.emoji ? `[Sticker ${content.content.emoji}]` : '[Sticker]';
+            const sticker = this.getStickerFormat(content.content);
             attachments.push({
                 type: 'image',
-                url: content.content.file_id
+                fileId: content.content.file_id,
+                fileName: `sticker_${groupMsg.message_id}.${sticker.extension}`,
+                mimeType: sticker.mimeType,
+                size: content.content.file_size
             });
         } else if (content.type === 'system') {
             messageText = this.formatSystemMessage(content.content);
@@ -237,6 +485,10 @@ export class TelegramService extends EventEmitter {
         // Get sender and chat information
         const chat = groupMsg.chat;
         const from = groupMsg.from;
+        // Captions carry their formatting separately from text messages
+        const entities = content.type === 'text'
+            ? groupMsg.entities
+            : content.caption ? groupMsg.caption_entities : undefined;
         
         // Create sender information using actual user data
         const senderId = from.id.toString();
@@ -245,7 +497,10 @@ export class TelegramService extends EventEmitter {
         
         return {
             id: groupMsg.message_id.toString(),
+            event,
+            editedAt: groupMsg.edit_date ? groupMsg.edit_date * 1000 : undefined,
             text: messageText,
+            entities: entities?.length ? entities : undefined,
             sender: {
                 id: senderId,
                 type: 'telegram',
@@ -254,11 +509,41 @@ export class TelegramService extends EventEmitter {
             },
             groupId: chat.id.toString(),
             groupName: chat.title || 'Unknown Group',
+            replyTo: this.getReplyTo(groupMsg),
             attachments: attachments.length > 0 ? attachments : undefined,
-            timestamp: groupMsg.date * 1000 // Convert to milliseconds
+            timestamp: groupMsg.date * 1000, // Convert to milliseconds
+            mentionsBot: this.mentionsBot(messageText, entities) || undefined,
+            sentAsGroup: groupMsg.sender_chat?.id === chat.id || undefined,
+            correlationId: getCorrelationId()
         };
     }
 
+    private getReplyTo(msg: TelegramGroupMessage): Message['replyTo'] {
+        const replied = msg.reply_to_message;
+        // In forum groups every topic message "replies" to the topic's first message
+        if (!replied || (msg.is_topic_message && replied.message_id === msg.message_thread_id)) {
+            return undefined;
+        }
+
+        return {
+            id: replied.message_id.toString(),
+            text: replied.text || replied.caption,
+            senderName: replied.from
+                ? [replied.from.first_name, replied.from.last_name].filter(Boolean).join(' ')
+                : undefined
+        };
+    }
+
+    private getStickerFormat(sticker: { is_animated?: boolean; is_video?: boolean }): { mimeType: string; extension: string } {
+        if (sticker.is_animated) {
+            return { mimeType: 'application/x-tgsticker', extension: 'tgs' };
+        }
+        if (sticker.is_video) {
+            return { mimeType: 'video/webm', extension: 'webm' };
+        }
+        return { mimeType: 'image/webp', extension: 'webp' };
+    }
+
     private formatSystemMessage(msg: any): string {
         if ('new_chat_member' in msg) {
             const member = msg.new_chat_member;
@@ -274,9 +559,40 @@ export class TelegramService extends EventEmitter {
         return '';
     }
 
-    async sendMessage(groupId: string, text: string, replyToMessageId?: string): Promise<void> {
+    /**
+     * Splits HTML into the messages sendMessage would send, for callers that send them one by one.
+     */
+    splitMessage(text: string): string[] {
+        return splitHtml(text, this.MAX_MESSAGE_LENGTH);
+    }
+
+    /**
+     * Sends HTML text, split into several messages when it is longer than Telegram allows.
+     * Each part replies to the previous one so they read as one message. Resolves to the ID
+     * of the first part.
+     */
+    async sendMessage(groupId: string, text: string, replyToMessageId?: string): Promise<string> {
+        const messageIds = await this.sendChunks(groupId, splitHtml(text, this.MAX_MESSAGE_LENGTH), replyToMessageId);
+        return messageIds[0];
+    }
+
+    private async sendChunks(groupId: string, chunks: string[], replyToMessageId?: string): Promise<string[]> {
+        if (chunks.length > 1) {
+            log.info('Splitting message for Telegram\'s length limit', { groupId, parts: chunks.length });
+        }
+
+        const messageIds: string[] = [];
+        let replyTo = replyToMessageId;
+        for (const chunk of chunks) {
+            replyTo = await this.sendText(groupId, chunk, replyTo);
+            messageIds.push(replyTo);
+        }
+        return messageIds;
+    }
+
+    private async sendText(groupId: string, text: string, replyToMessageId?: string): Promise<string> {
         try {
-            console.log('Sending message to Telegram group:', {
+            log.info('Sending message to Telegram group', {
                 groupId,
                 text,
                 replyToMessageId
@@ -286,47 +602,228 @@ export class TelegramService extends EventEmitter {
                 parse_mode: 'HTML'
             };
             if (replyToMessageId) {
-                options.reply_to_message_id = replyToMessageId;
+                options.reply_parameters = this.getReplyParameters(replyToMessageId);
             }
-            const result = await this.bot.telegram.sendMessage(groupId, text, options);
-            console.log('Message sent successfully:', {
+            const result = await this.throttled(groupId, () => this.bot.telegram.sendMessage(groupId, text, options));
+            log.info('Message sent successfully', {
                 messageId: result.message_id,
                 groupId: result.chat.id
             });
+            return result.message_id.toString();
         } catch (error) {
-            console.error('Error sending message to Telegram:', error);
+            log.error('Error sending message to Telegram', { error });
             throw error;
         }
     }
 
-    async sendFile(groupId: string, fileUrl: string, caption?: string): Promise<void> {
+    async sendMedia(groupId: string, media: OutgoingMedia, replyToMessageId?: string): Promise<string> {
         try {
-            console.log('Sending file to Telegram group:', {
+            log.info('Sending media to Telegram group', {
                 groupId,
-                fileUrl,
-                caption
+                kind: media.kind,
+                url: media.url,
+                caption: media.caption,
+                replyToMessageId
             });
 
-            const result = await this.bot.telegram.sendDocument(groupId, fileUrl, {
-                caption
+            const { caption, overflow } = this.splitCaption(media.caption);
+            const extra = {
+                caption,
+                parse_mode: 'HTML' as const,
+                reply_parameters: replyToMessageId ? this.getReplyParameters(replyToMessageId) : undefined
+            };
+
+            const result = await this.throttled<TelegramMessage>(groupId, () => {
+                switch (media.kind) {
+                    case 'photo':
+                        return this.bot.telegram.sendPhoto(groupId, media.url, extra);
+                    case 'video':
+                        return this.bot.telegram.sendVideo(groupId, media.url, extra);
+                    case 'audio':
+                        return this.bot.telegram.sendAudio(groupId, media.url, extra);
+                    default:
+                        return this.bot.telegram.sendDocument(groupId, media.url, extra);
+                }
             });
-            console.log('File sent successfully:', {
+
+            log.info('Media sent successfully', {
                 messageId: result.message_id,
                 groupId: result.chat.id,
-                documentId: result.document?.file_id
+                kind: media.kind
+            });
+
+            const messageId = result.message_id.toString();
+            await this.sendChunks(groupId, overflow, messageId);
+            return messageId;
+        } catch (error) {
+            log.error('Error sending media to Telegram', { error });
+            throw error;
+        }
+    }
+
+    /**
+     * Sends 2-10 photos or videos as one album. Only the first item's caption is shown
+     * under the album by Telegram clients.
+     */
+    async sendMediaGroup(groupId: string, media: OutgoingMedia[], replyToMessageId?: string): Promise<string[]> {
+        try {
+            log.info('Sending media group to Telegram group', {
+                groupId,
+                count: media.length,
+                replyToMessageId
             });
+
+            const captions = media.map(item => this.splitCaption(item.caption));
+            const result = await this.throttled(groupId, () => this.bot.telegram.sendMediaGroup(groupId, media.map((item, index) => ({
+                type: item.kind === 'video' ? 'video' as const : 'photo' as const,
+                media: item.url,
+                caption: captions[index].caption,
+                parse_mode: 'HTML' as const
+            })), {
+                reply_parameters: replyToMessageId ? this.getReplyParameters(replyToMessageId) : undefined
+            }));
+
+            log.info('Media group sent successfully', {
+                groupId,
+                messageIds: result.map(message => message.message_id)
+            });
+
+            const messageIds = result.map(message => message.message_id.toString());
+            const overflow = captions.flatMap(item => item.overflow);
+            await this.sendChunks(groupId, overflow, messageIds[0]);
+            return messageIds;
         } catch (error) {
-            console.error('Error sending file to Telegram:', error);
+            log.error('Error sending media group to Telegram', { error });
             throw error;
         }
     }
 
+    /**
+     * Sends a request to a chat within the per-chat and global rate limits. When Telegram still
+     * answers 429, the chat is paused for the retry_after it asked for and short waits are
+     * retried here, longer ones fail so the outbound queue retries them later.
+     */
+    private async throttled<T>(chatId: string, request: () => Promise<T>): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            await this.chatLimiter.acquire(chatId);
+            await this.globalLimiter.acquire();
+            try {
+                return await request();
+            } catch (error) {
+                const retryAfter = this.getRetryAfter(error);
+                if (retryAfter === undefined) {
+                    throw error;
+                }
+
+                rateLimitResponses.inc({ api: 'telegram' });
+                this.chatLimiter.pause(chatId, retryAfter);
+                log.warn('Telegram rate limit hit', { chatId, retryAfterMs: retryAfter, attempt });
+                if (retryAfter > this.MAX_INLINE_RETRY_AFTER || attempt >= this.MAX_RATE_LIMIT_RETRIES) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * The delay Telegram asked for when it rejected a request with 429 Too Many Requests.
+     */
+    getRetryAfter(error: unknown): number | undefined {
+        if (error instanceof TelegramError && error.code === 429) {
+            const retryAfter = error.parameters?.retry_after;
+            return retryAfter !== undefined ? retryAfter * 1000 : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether retrying a failed request cannot succeed: the bot was removed from the chat,
+     * the chat is gone or Telegram rejected the request itself.
+     */
+    isPermanentError(error: unknown): boolean {
+        return error instanceof TelegramError && (error.code === 400 || error.code === 403);
+    }
+
+    /**
+     * Splits a caption at Telegram's caption limit, the rest overflows into text messages
+     * sent after the media.
+     */
+    private splitCaption(text?: string): { caption?: string; overflow: string[] } {
+        if (!text) {
+            return { caption: text, overflow: [] };
+        }
+        const [caption, ...overflow] = splitHtml(text, this.MAX_MESSAGE_LENGTH, { firstLength: this.MAX_CAPTION_LENGTH });
+        return { caption, overflow };
+    }
+
+    private getReplyParameters(replyToMessageId: string): { message_id: number; allow_sending_without_reply: boolean } {
+        return {
+            message_id: Number(replyToMessageId),
+            // Still deliver the message if the customer deleted the one it answers
+            allow_sending_without_reply: true
+        };
+    }
+
+    /**
+     * Downloads a file through the Bot API file endpoint.
+     * Rejects files that Telegram reports as, or that turn out to be, larger than maxBytes.
+     */
+    async downloadFile(fileId: string, maxBytes: number = this.MAX_DOWNLOAD_BYTES): Promise<DownloadedFile> {
+        const file = await this.bot.telegram.getFile(fileId);
+        if (file.file_size && file.file_size > maxBytes) {
+            throw new Error(`File is ${file.file_size} bytes, limit is ${maxBytes} bytes`);
+        }
+
+        const fileUrl = await this.bot.telegram.getFileLink(file);
+        log.info('Downloading Telegram file', {
+            fileId,
+            filePath: file.file_path,
+            fileSize: file.file_size
+        });
+
+        const data = await new Promise<Buffer>((resolve, reject) => {
+            https.get(fileUrl, { agent: this.agent }, (res) => {
+                if (res.statusCode !== 200) {
+                    res.resume();
+                    reject(new Error(`Telegram file download failed with status ${res.statusCode}`));
+                    return;
+                }
+
+                const chunks: Buffer[] = [];
+                let received = 0;
+                res.on('data', (chunk: Buffer) => {
+                    received += chunk.length;
+                    if (received > maxBytes) {
+                        res.destroy(new Error(`File exceeds limit of ${maxBytes} bytes`));
+                        return;
+                    }
+                    chunks.push(chunk);
+                });
+                res.on('end', () => resolve(Buffer.concat(chunks)));
+                res.on('error', reject);
+            }).on('error', reject);
+        });
+
+        return { data, filePath: file.file_path };
+    }
+
     async start(): Promise<void> {
-        await this.bot.launch();
-        console.log('Telegram bot started');
+        if (this.options.webhook) {
+            await this.startWebhook(this.options.webhook);
+        } else {
+            // launch() only settles once polling stops, wait for the bot to be up instead
+            await new Promise<void>((resolve, reject) => {
+                this.bot.launch(() => resolve()).catch(error => {
+                    log.error('Telegram polling stopped with an error', { error });
+                    reject(error);
+                });
+            });
+        }
+        this.receivingUpdates = true;
+        log.info('Telegram bot started', { mode: this.options.webhook ? 'webhook' : 'polling' });
         
         const botInfo = await this.bot.telegram.getMe();
-        console.log('Bot info:', {
+        log.info('Bot info', {
             id: botInfo.id,
             username: botInfo.username,
             firstName: botInfo.first_name,
@@ -334,8 +831,72 @@ export class TelegramService extends EventEmitter {
         });
     }
 
+    /**
+     * Mounts the update endpoint on the HTTP server and registers it with Telegram.
+     * Any number of instances can serve the same webhook, unlike getUpdates polling.
+     */
+    private async startWebhook(webhook: TelegramWebhookOptions): Promise<void> {
+        // Command parsing needs the bot's username, launch() would otherwise fetch it
+        this.bot.botInfo = await this.bot.telegram.getMe();
+
+        this.httpService.app.post(
+            webhook.path,
+            timeWebhook('telegram'),
+            this.verifyWebhookRequest.bind(this),
+            this.bot.webhookCallback(webhook.path, { secretToken: webhook.secretToken })
+        );
+
+        const url = new URL(webhook.path, webhook.url).toString();
+        await this.bot.telegram.setWebhook(url, { secret_token: webhook.secretToken });
+        log.info('Telegram webhook registered', { url });
+    }
+
+    private verifyWebhookRequest(req: Request, res: Response, next: NextFunction): void {
+        if (!this.receivingUpdates) {
+            // Telegram retries the update later, possibly on another instance
+            res.status(503).send('Service Unavailable');
+            return;
+        }
+
+        const token = req.header(this.SECRET_TOKEN_HEADER) || '';
+        const expected = Buffer.from(this.options.webhook?.secretToken || '', 'utf8');
+        const received = Buffer.from(token, 'utf8');
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            log.warn('Rejected Telegram webhook with missing or invalid secret token', {
+                hasToken: Boolean(token),
+                ip: req.ip
+            });
+            res.status(401).send('Unauthorized');
+            return;
+        }
+
+        next();
+    }
+
+    /**
+     * Makes the bot leave the group, used for groups that were rejected.
+     */
+    async leaveChat(groupId: string): Promise<void> {
+        await this.bot.telegram.leaveChat(groupId);
+    }
+
+    /**
+     * Rejects if the bot isn't receiving updates or the Bot API can't be reached,
+     * used by the readiness check.
+     */
+    async ping(): Promise<void> {
+        if (!this.receivingUpdates) {
+            throw new Error('Telegram bot is not receiving updates');
+        }
+        await this.bot.telegram.getMe();
+    }
+
     async stop(): Promise<void> {
-        await this.bot.stop();
-        console.log('Telegram bot stopped');
+        this.receivingUpdates = false;
+        if (!this.options.webhook) {
+            await this.bot.stop();
+        }
+        // The webhook stays registered, other instances keep receiving updates
+        log.info('Telegram bot stopped');
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,37 @@
+import { Message } from './types';
+
+export const GROUP_ID = '-100200';
+
+/**
+ * A message posted in the test group by a customer, the text follows the ID unless given.
+ */
+export function telegramMessage(overrides: Partial<Message> = {}): Message {
+    const id = overrides.id || '41';
+    return {
+        id,
+        event: 'new',
+        text: `Message ${id}`,
+        sender: { id: '555', type: 'telegram', name: 'Bob' },
+        groupId: GROUP_ID,
+        groupName: 'Customers',
+        timestamp: Date.now(),
+        ...overrides
+    };
+}
+
+/**
+ * An admin reply in the test group's conversation.
+ */
+export function intercomMessage(overrides: Partial<Message> = {}): Message {
+    return {
+        id: 'part-20',
+        event: 'new',
+        text: '<p>It ships tomorrow</p>',
+        sender: { id: '7', type: 'intercom', name: 'Alice (Intercom Admin)' },
+        groupId: GROUP_ID,
+        groupName: 'Customers',
+        conversationId: '1001',
+        timestamp: Date.now(),
+        ...overrides
+    };
+}
@@ -0,0 +1,4 @@
+import { logger } from './utils/logger';
+
+// Tests exercise failure paths on purpose, only errors are worth seeing
+logger.configure({ level: 'error', logPayloads: false });
@@ -1,12 +1,132 @@
+export type ConversationState = 'open' | 'closed' | 'snoozed' | 'deleted';
+
+/**
+ * What to do with a Telegram message for a group whose conversation an agent closed:
+ * reply anyway (Intercom reopens the conversation) or start a fresh conversation.
+ */
+export type ClosedConversationPolicy = 'reopen' | 'new';
+
 export interface GroupMapping {
     telegramGroupId: string;
     intercomConversationId: string;
     lastMessageId?: string;
+    conversationState?: ConversationState;
+    inactiveSince?: number; // Set while the bot is not a member of the group, in milliseconds
+}
+
+/**
+ * Whether a group may use the bridge. Groups the bot is added to wait as pending until an
+ * operator approves them, rejected groups are left right away.
+ */
+export type GroupAccessStatus = 'pending' | 'approved' | 'rejected';
+
+export interface GroupAccess {
+    telegramGroupId: string;
+    groupName: string;
+    status: GroupAccessStatus;
+    addedBy?: { // Who added the bot to the group
+        id: string;
+        name: string;
+        username?: string;
+    };
+    requestedAt: number;
+    decidedAt?: number; // When the group was approved or rejected
+    removedAt?: number; // Set while the bot is not a member of the group
+}
+
+/**
+ * The bot joining or leaving a group, from Telegram's my_chat_member updates.
+ */
+export interface MembershipChange {
+    kind: 'added' | 'removed';
+    groupId: string;
+    groupName: string;
+    changedBy: {
+        id: string;
+        name: string;
+        username?: string;
+    };
+    timestamp: number;
+}
+
+export interface ConversationHistoryEntry {
+    conversationId: string;
+    state: ConversationState;
+    archivedAt: number;
+    reason: string;
+}
+
+export interface ConversationLifecycleEvent {
+    kind: 'opened' | 'closed' | 'snoozed' | 'deleted' | 'assigned';
+    conversationId: string;
+    groupId?: string; // From the conversation's telegram_group_id attribute, when present
+    adminName?: string; // The admin who made the change
+    assigneeName?: string; // Set for assignments to an admin
+    snoozedUntil?: number; // Set for snoozes, in milliseconds
+    timestamp: number;
+}
+
+/**
+ * Lifecycle events that can be announced in the Telegram group.
+ */
+export type NotificationKind = 'assigned' | 'snoozed' | 'closed' | 'opened';
+
+/**
+ * Which Telegram messages of a group are forwarded to Intercom:
+ * - all: every message
+ * - addressed: messages that mention the bot or reply to a bridged message
+ * - keyword: messages containing one of the forwarding keywords or hashtags
+ * - members: messages from members who are not administrators of the group
+ */
+export type ForwardingMode = 'all' | 'addressed' | 'keyword' | 'members';
+
+/**
+ * A group message that was not forwarded, kept to give the next forwarded message context.
+ */
+export interface ContextMessage {
+    senderName: string;
+    text: string;
+    timestamp: number;
+}
+
+export interface GroupSettings {
+    // Per-group overrides of the globally enabled notifications
+    notifications?: Partial<Record<NotificationKind, boolean>>;
+}
+
+export interface Attachment {
+    type: string; // image, file, video or audio
+    url?: string; // Publicly reachable URL, set for Intercom attachments
+    fileId?: string; // Telegram file_id, resolved through the Bot API when forwarded
+    fileName?: string;
+    mimeType?: string;
+    size?: number; // Size in bytes, when the source reports it
+}
+
+/**
+ * Formatting of a span of Telegram text: bold, link, code block and so on. Offsets and
+ * lengths count UTF-16 code units, like JavaScript strings.
+ */
+export interface TextEntity {
+    type: string;
+    offset: number;
+    length: number;
+    url?: string; // Target of text_link entities
+    language?: string; // Language of pre entities
 }
 
+/**
+ * What happened to a message: a new message or a correction of an earlier one. Edits carry
+ * the ID of the original message.
+ */
+export type MessageEvent = 'new' | 'edit';
+
 export interface Message {
     id: string;
-    text: string;
+    event: MessageEvent;
+    editedAt?: number; // Set for edits, distinguishes successive edits of the same message
+    text: string; // Plain text for Telegram messages, HTML for Intercom messages
+    entities?: TextEntity[]; // Formatting of a Telegram message's text
     sender: {
         id: string;
         type: 'telegram' | 'intercom';
@@ -15,16 +135,133 @@ export interface Message {
     };
     groupId: string;
     groupName: string;
-    attachments?: Array<{
-        type: string;
-        url: string;
-    }>;
+    conversationId?: string; // Intercom conversation, set for messages coming from Intercom
+    replyTo?: {
+        id: string; // Telegram message_id of the message being replied to
+        text?: string;
+        senderName?: string;
+    };
+    attachments?: Attachment[];
+    timestamp: number;
+    correlationId?: string; // Ties the log lines of one message together, kept across retries
+    mentionsBot?: boolean; // The text @-mentions the bridge's bot
+    sentAsGroup?: boolean; // Posted by an anonymous administrator on behalf of the group
+    context?: ContextMessage[]; // Earlier messages that were not forwarded, oldest first
+    // First Telegram message of every part of an Intercom reply already sent, kept across
+    // retries so a reply that failed halfway resumes after the parts the group has seen
+    deliveredParts?: string[];
+}
+
+export type MessageDirection = 'telegram_to_intercom' | 'intercom_to_telegram';
+
+export interface MessageLink {
+    telegramChatId: string;
+    telegramMessageId: string;
+    intercomConversationId: string;
+    intercomPartId: string;
+    direction: MessageDirection;
+    senderId: string; // Telegram user ID or Intercom admin ID, depending on direction
+    senderName: string;
+    excerpt: string; // Short plain-text preview used when quoting the message
+}
+
+/**
+ * A bot command sent in a group by one of its administrators. Commands are never forwarded.
+ */
+export interface BotCommand {
+    name: string; // Lower-case, without the leading slash and bot mention
+    args: string[];
+    messageId: string;
+    groupId: string;
+    groupName: string;
+    sender: {
+        id: string;
+        name: string;
+        username?: string;
+    };
     timestamp: number;
 }
 
+export interface ContactMapping {
+    telegramUserId: string;
+    intercomContactId: string;
+}
+
+export interface QueuedMessage {
+    groupId: string;
+    direction?: MessageDirection; // Queue the entry belongs to, entries without one go to Intercom
+    message: Message;
+    attempts: number;
+    queuedAt: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    deadLetteredAt?: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type StorageBackend = 'redis' | 'memory';
+
+/**
+ * Settings that can differ per Telegram group, keyed by group ID in the config file.
+ */
+export interface GroupConfig {
+    closedConversationPolicy?: ClosedConversationPolicy;
+    notifications?: Partial<Record<NotificationKind, boolean>>;
+    forwardingMode?: ForwardingMode;
+    forwardingKeywords?: string[];
+    contextMessages?: number;
+}
+
+/**
+ * The validated configuration built by loadConfig from the environment and CONFIG_FILE.
+ */
 export interface ServiceConfig {
-    telegramToken: string;
-    intercomToken: string;
-    redisUrl: string;
-    logLevel: string;
-} 
\ No newline at end of file
+    logLevel: LogLevel;
+    logPayloads: boolean; // Include message content and full payloads in logs
+    proxyUrl?: string; // Proxy for Telegram Bot API requests
+    http: {
+        port: number; // Serves the webhooks and the admin API
+    };
+    telegram: {
+        token: string;
+        webhook?: {
+            url: string;
+            path: string;
+            secretToken: string;
+        };
+        commandsEnabled: boolean;
+    };
+    intercom: {
+        accessToken: string;
+        clientSecret: string;
+        adminId: string;
+    };
+    storage: {
+        backend: StorageBackend;
+        redisUrl: string;
+    };
+    adminApi: {
+        token?: string; // The admin API is disabled without a token
+    };
+    closedConversationPolicy: ClosedConversationPolicy;
+    forwardingMode: ForwardingMode;
+    forwardingKeywords: string[]; // Matched in keyword mode, words or #hashtags
+    contextMessages: number; // Messages kept as context when not forwarded, 0 disables it
+    groupApproval: {
+        required: boolean; // Unknown groups are held until approved
+        allowedGroups: string[]; // Group IDs approved up front
+    };
+    shutdownTimeoutMs: number; // How long shutdown waits for in-flight messages
+    retry: {
+        intervalMs?: number;
+        maxAttempts?: number;
+        baseDelayMs?: number;
+        maxDelayMs?: number;
+    };
+    notifications: {
+        enabled?: NotificationKind[]; // All kinds when unset
+        templates: Partial<Record<NotificationKind, string>>;
+    };
+    groups: Record<string, GroupConfig>;
+}
@@ -0,0 +1,118 @@
+import { entitiesToHtml, htmlToPlainText, htmlToTelegram, splitHtml } from './formatting';
+import { TextEntity } from '../types';
+
+describe('entitiesToHtml', () => {
+    const cases: Array<[string, string, TextEntity[], string]> = [
+        ['plain text', 'Hello', [], 'Hello'],
+        ['escaped markup', 'a < b & "c"', [], 'a &lt; b &amp; "c"'],
+        ['line breaks', 'one\ntwo', [], 'one<br>two'],
+        ['bold and italic', 'bold and italic', [
+            { type: 'bold', offset: 0, length: 4 },
+            { type: 'italic', offset: 9, length: 6 }
+        ], '<b>bold</b> and <i>italic</i>'],
+        ['nested entities', 'very important', [
+            { type: 'bold', offset: 0, length: 14 },
+            { type: 'underline', offset: 5, length: 9 }
+        ], '<b>very <u>important</u></b>'],
+        ['code keeps newlines', 'x\ny', [{ type: 'pre', offset: 0, length: 3 }], '<pre>x\ny</pre>'],
+        ['text link', 'our site', [{ type: 'text_link', offset: 4, length: 4, url: 'https://example.com' }],
+            'our <a href="https://example.com">site</a>'],
+        ['bare domain', 'see example.com', [{ type: 'url', offset: 4, length: 11 }],
+            'see <a href="https://example.com">example.com</a>'],
+        ['email', 'bob@example.com', [{ type: 'email', offset: 0, length: 15 }],
+            '<a href="mailto:bob@example.com">bob@example.com</a>'],
+        ['phone number', '+1 (555) 010', [{ type: 'phone_number', offset: 0, length: 12 }],
+            '<a href="tel:+1555010">+1 (555) 010</a>'],
+        ['mention', 'ask @support', [{ type: 'mention', offset: 4, length: 8 }],
+            'ask <a href="https://t.me/support">@support</a>'],
+        ['unsafe link scheme', 'click', [{ type: 'text_link', offset: 0, length: 5, url: 'javascript:alert(1)' }], 'click'],
+        ['entities without an equivalent', '#urgent', [{ type: 'hashtag', offset: 0, length: 7 }], '#urgent'],
+        ['entities past the end', 'short', [{ type: 'bold', offset: 10, length: 3 }], 'short'],
+        ['offsets in UTF-16 code units', '👍 ok', [{ type: 'bold', offset: 3, length: 2 }], '👍 <b>ok</b>']
+    ];
+
+    it.each(cases)('renders %s', (_name, text, entities, expected) => {
+        expect(entitiesToHtml(text, entities)).toBe(expected);
+    });
+});
+
+describe('htmlToTelegram', () => {
+    const cases: Array<[string, string, string]> = [
+        ['paragraphs', '<p>Hello</p><p>World</p>', 'Hello\nWorld'],
+        ['line breaks', '<p>one<br>two<br><br>three</p>', 'one\ntwo\n\nthree'],
+        ['supported tags', '<p><strong>Bold</strong> and <em>italic</em></p>', '<b>Bold</b> and <i>italic</i>'],
+        ['headings as bold', '<h2>Title</h2><p>Body</p>', '<b>Title</b>\nBody'],
+        ['bullet lists', '<ul><li>one</li><li>two</li></ul>', '• one\n• two'],
+        ['numbered lists', '<ol><li>first</li><li>second</li></ol>', '1. first\n2. second'],
+        ['nested lists', '<ul><li>a<ul><li>b</li></ul></li></ul>', '• a\n  • b'],
+        ['safe links', '<a href="https://example.com?a=1&amp;b=2">link</a>', '<a href="https://example.com?a=1&amp;b=2">link</a>'],
+        ['unsafe links', '<a href="javascript:alert(1)">link</a>', 'link'],
+        ['unsupported tags', '<span class="x">text</span><img src="a.png">', 'text'],
+        ['entities re-escaped', '<p>a &lt; b &amp;&nbsp;c</p>', 'a &lt; b &amp; c'],
+        ['stray angle brackets', '<p>1 < 2</p>', '1 &lt; 2'],
+        ['preformatted whitespace', '<pre>x\n  y</pre>', '<pre>x\n  y</pre>'],
+        ['formatting inside code', '<code><b>x</b></code>', '<code>x</code>'],
+        ['repeated nesting', '<b>a <strong>b</strong></b>', '<b>a b</b>'],
+        ['unclosed tags', '<p><b>bold', '<b>bold</b>'],
+        ['comments', '<!-- note --><p>text</p>', 'text']
+    ];
+
+    it.each(cases)('converts %s', (_name, html, expected) => {
+        expect(htmlToTelegram(html)).toBe(expected);
+    });
+
+    it('gives the plain text of a body', () => {
+        expect(htmlToPlainText('<p><b>Order</b> &amp; <a href="https://example.com">invoice</a></p>')).toBe('Order & invoice');
+    });
+});
+
+describe('splitHtml', () => {
+    const visibleLength = (chunk: string): number =>
+        chunk.replace(/<[^>]+>/g, '').replace(/&(?:#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, '_').length;
+
+    const cases: Array<[string, string, number, string[]]> = [
+        ['text within the limit', 'short text', 20, ['short text']],
+        ['markup not counted', '<b>abcdefghij</b>', 10, ['<b>abcdefghij</b>']],
+        ['at a paragraph', 'First paragraph.\n\nSecond one.', 24, ['First paragraph.', 'Second one.']],
+        ['at a line break before a sentence', 'Line one. More\nline two', 20, ['Line one. More', 'line two']],
+        ['at a sentence before a word', 'One two. Three four five', 16, ['One two.', 'Three four five']],
+        ['at a word', 'alpha beta gamma delta', 12, ['alpha beta', 'gamma delta']],
+        ['inside a word that is too long', 'abcdefghij', 4, ['abcd', 'efgh', 'ij']],
+        ['reopening tags across a cut', '<b>alpha beta gamma</b>', 11, ['<b>alpha beta</b>', '<b>gamma</b>']],
+        ['nested tags across a cut', '<b><i>one two three</i></b>', 8, ['<b><i>one two</i></b>', '<b><i>three</i></b>']],
+        ['character references as one character', 'a &amp; b &amp; c', 5, ['a &amp;', 'b &amp; c']]
+    ];
+
+    it.each(cases)('splits %s', (_name, html, maxLength, expected) => {
+        expect(splitHtml(html, maxLength)).toEqual(expected);
+    });
+
+    it('keeps every chunk within the limit and the text complete', () => {
+        const html = Array.from({ length: 40 }, (_, index) => `<b>Sentence ${index}</b> with <i>some words</i>.`).join(' ');
+
+        const chunks = splitHtml(html, 100);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => expect(visibleLength(chunk)).toBeLessThanOrEqual(100));
+        expect(chunks.map(chunk => chunk.replace(/<[^>]+>/g, '')).join(' ')).toBe(html.replace(/<[^>]+>/g, ''));
+    });
+
+    it('counts markup against limits on the raw HTML', () => {
+        const chunks = splitHtml('<b>alpha</b> <b>beta</b>', 14, { countMarkup: true });
+
+        expect(chunks).toEqual(['<b>alpha</b>', '<b>beta</b>']);
+    });
+
+    it('cuts HTML bodies after paragraphs and line breaks when counting markup', () => {
+        expect(splitHtml('<p>First paragraph.</p><p>Second one here.</p>', 40, { countMarkup: true }))
+            .toEqual(['<p>First paragraph.</p>', '<p>Second one here.</p>']);
+        expect(splitHtml('<p>Line one here<br>Line two here</p>', 25, { countMarkup: true }))
+            .toEqual(['<p>Line one here</p>', '<p>Line two here</p>']);
+        expect(splitHtml('<ul><li>first item</li><li>second item</li></ul>', 40, { countMarkup: true }))
+            .toEqual(['<ul><li>first item</li></ul>', '<ul><li>second item</li></ul>']);
+    });
+
+    it('uses a shorter limit for the first chunk', () => {
+        expect(splitHtml('one two three four', 20, { firstLength: 4 })).toEqual(['one', 'two three four']);
+    });
+});
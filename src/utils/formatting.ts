@@ -0,0 +1,413 @@
+import { TextEntity } from '../types';
+import { decodeHtmlEntities, escapeAttribute, escapeHtml } from './html';
+
+// Links are only kept for schemes that are safe to open from a chat or the inbox
+const SAFE_LINK = /^(https?:|mailto:|tel:|tg:)/i;
+const HAS_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+// Intercom tags that map onto Telegram's HTML subset
+const TELEGRAM_TAGS: Record<string, string> = {
+    b: 'b', strong: 'b', h1: 'b', h2: 'b', h3: 'b', h4: 'b', h5: 'b', h6: 'b',
+    i: 'i', em: 'i',
+    u: 'u', ins: 'u',
+    s: 's', strike: 's', del: 's',
+    code: 'code',
+    pre: 'pre',
+    blockquote: 'blockquote'
+};
+// Tags that start and end their own line
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'ul', 'ol', 'li', 'table', 'tr']);
+
+function linkTo(url: string | undefined, content: string): string {
+    const target = url?.trim();
+    return target && SAFE_LINK.test(target)
+        ? `<a href="${escapeAttribute(target)}">${content}</a>`
+        : content;
+}
+
+/**
+ * Renders Telegram text and its formatting entities as HTML for an Intercom message body.
+ */
+export function entitiesToHtml(text: string, entities: TextEntity[] = []): string {
+    const sorted = entities
+        .filter(entity => entity.length > 0 && entity.offset >= 0 && entity.offset < text.length)
+        .sort((a, b) => a.offset - b.offset || b.length - a.length);
+    return renderEntities(text, sorted, 0, text.length, false);
+}
+
+/**
+ * Entities nest without overlapping partially, so each one is rendered with the entities
+ * that start inside it as its children.
+ */
+function renderEntities(text: string, entities: TextEntity[], start: number, end: number, preformatted: boolean): string {
+    let html = '';
+    let position = start;
+    let index = 0;
+
+    while (index < entities.length) {
+        const entity = entities[index];
+        const entityEnd = Math.min(entity.offset + entity.length, end);
+        let next = index + 1;
+        while (next < entities.length && entities[next].offset < entityEnd) {
+            next++;
+        }
+
+        const inner = renderEntities(
+            text,
+            entities.slice(index + 1, next),
+            entity.offset,
+            entityEnd,
+            preformatted || entity.type === 'pre'
+        );
+        html += renderText(text.slice(position, entity.offset), preformatted);
+        html += wrapEntity(entity, inner, text.slice(entity.offset, entityEnd));
+        position = entityEnd;
+        index = next;
+    }
+
+    return html + renderText(text.slice(position, end), preformatted);
+}
+
+function renderText(text: string, preformatted: boolean): string {
+    const escaped = escapeHtml(text);
+    return preformatted ? escaped : escaped.replace(/\n/g, '<br>');
+}
+
+function wrapEntity(entity: TextEntity, inner: string, content: string): string {
+    switch (entity.type) {
+        case 'bold':
+            return `<b>${inner}</b>`;
+        case 'italic':
+            return `<i>${inner}</i>`;
+        case 'underline':
+            return `<u>${inner}</u>`;
+        case 'strikethrough':
+            return `<s>${inner}</s>`;
+        case 'code':
+            return `<code>${inner}</code>`;
+        case 'pre':
+            return `<pre>${inner}</pre>`;
+        case 'blockquote':
+        case 'expandable_blockquote':
+            return `<blockquote>${inner}</blockquote>`;
+        case 'text_link':
+            return linkTo(entity.url, inner);
+        case 'url':
+            // Telegram also detects bare domains such as example.com
+            return linkTo(HAS_SCHEME.test(content) ? content : `https://${content}`, inner);
+        case 'email':
+            return linkTo(`mailto:${content}`, inner);
+        case 'phone_number':
+            return linkTo(`tel:${content.replace(/[^\d+]/g, '')}`, inner);
+        case 'mention':
+            return linkTo(`https://t.me/${content.replace(/^@/, '')}`, inner);
+        default:
+            // Hashtags, commands, spoilers and custom emoji have no Intercom equivalent
+            return inner;
+    }
+}
+
+interface OpenTag {
+    source: string; // Tag in the Intercom HTML
+    emitted: string | null; // Telegram tag written for it, null if it was dropped
+}
+
+/**
+ * Converts an Intercom message body to the HTML subset Telegram accepts with parse_mode HTML.
+ * Paragraphs and line breaks become newlines, lists become bullet or numbered lines and
+ * unsupported tags are dropped while keeping their text. Text is re-escaped and tags are
+ * balanced, so the result is always accepted by Telegram.
+ */
+export function htmlToTelegram(html: string): string {
+    let output = '';
+    let pendingBreaks = 0; // Newlines to write before the next visible content
+    let lineStart = true; // Leading whitespace of the next text is dropped
+    const open: OpenTag[] = [];
+    const lists: Array<{ ordered: boolean; count: number }> = [];
+
+    const isOpen = (tag: string): boolean => open.some(entry => entry.emitted === tag);
+    const isPreformatted = (): boolean => isOpen('pre');
+
+    const flush = (): void => {
+        if (pendingBreaks > 0 && output) {
+            output += '\n'.repeat(pendingBreaks);
+            lineStart = true;
+        }
+        pendingBreaks = 0;
+    };
+    const breakLine = (): void => {
+        pendingBreaks = Math.max(pendingBreaks, 1);
+    };
+
+    const openTag = (source: string, emitted: string, attributes: string = ''): void => {
+        // Telegram rejects formatting inside code and repeated nesting of a tag
+        const allowed = !isOpen('code') && !isOpen('pre') && !isOpen(emitted);
+        if (allowed) {
+            flush();
+            output += `<${emitted}${attributes}>`;
+        }
+        open.push({ source, emitted: allowed ? emitted : null });
+    };
+    const closeTag = (source: string): void => {
+        const index = open.map(entry => entry.source).lastIndexOf(source);
+        if (index === -1) {
+            return;
+        }
+        // Tags left open inside it are closed with it
+        for (const entry of open.splice(index).reverse()) {
+            if (entry.emitted) {
+                output += `</${entry.emitted}>`;
+            }
+        }
+    };
+
+    const writeText = (raw: string): void => {
+        let text = decodeHtmlEntities(raw);
+        if (!isPreformatted()) {
+            text = text.replace(/\s+/g, ' ');
+            if (lineStart || pendingBreaks > 0) {
+                text = text.trimStart();
+            }
+        }
+        if (!text) {
+            return;
+        }
+        flush();
+        output += escapeHtml(text);
+        lineStart = false;
+    };
+
+    const token = /<!--[\s\S]*?-->|<(\/?)([a-z][a-z0-9]*)\b([^>]*)>|([^<]+)|</gi;
+    let match: RegExpExecArray | null;
+    while ((match = token.exec(html)) !== null) {
+        const [whole, closing, rawName, attributes, text] = match;
+        if (text !== undefined || whole === '<') {
+            writeText(whole);
+            continue;
+        }
+        if (!rawName) {
+            continue; // Comment
+        }
+
+        const name = rawName.toLowerCase();
+        if (name === 'br') {
+            pendingBreaks++;
+            continue;
+        }
+
+        if (closing) {
+            // Formatting left open inside a block ends with it
+            if (TELEGRAM_TAGS[name] || BLOCK_TAGS.has(name) || name === 'a') {
+                closeTag(name);
+            }
+            if (name === 'ul' || name === 'ol') {
+                lists.pop();
+            }
+            if (BLOCK_TAGS.has(name)) {
+                breakLine();
+            }
+            continue;
+        }
+
+        if (BLOCK_TAGS.has(name)) {
+            breakLine();
+        }
+        if (name === 'ul' || name === 'ol') {
+            lists.push({ ordered: name === 'ol', count: 0 });
+        } else if (name === 'li') {
+            const list = lists[lists.length - 1];
+            const indent = '  '.repeat(Math.max(lists.length - 1, 0));
+            const marker = list?.ordered ? `${++list.count}.` : '•';
+            flush();
+            output += `${indent}${marker} `;
+            lineStart = true;
+        }
+
+        if (name === 'a') {
+            const href = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(attributes);
+            const url = decodeHtmlEntities(href?.[1] ?? href?.[2] ?? href?.[3] ?? '').trim();
+            if (SAFE_LINK.test(url)) {
+                openTag(name, 'a', ` href="${escapeAttribute(url)}"`);
+            } else {
+                open.push({ source: name, emitted: null });
+            }
+        }
+
+        if (TELEGRAM_TAGS[name]) {
+            openTag(name, TELEGRAM_TAGS[name]);
+        } else if (BLOCK_TAGS.has(name)) {
+            open.push({ source: name, emitted: null });
+        }
+    }
+
+    while (open.length > 0) {
+        closeTag(open[open.length - 1].source);
+    }
+
+    return output
+        .replace(/ +\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Plain text of an Intercom message body, for excerpts and quotes.
+ */
+export function htmlToPlainText(html: string): string {
+    return decodeHtmlEntities(htmlToTelegram(html).replace(/<[^>]+>/g, ''));
+}
+
+export interface SplitOptions {
+    firstLength?: number; // Limit of the first chunk, e.g. a media caption followed by messages
+    countMarkup?: boolean; // Count tags and character references too, for limits on the raw HTML
+}
+
+interface SplitUnit {
+    raw: string;
+    length: number;
+    tag?: { name: string; closing: boolean };
+}
+
+// Tags without content that are never closed
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'wbr']);
+// Closing tags that end a paragraph or a line of HTML bodies, like blank lines and line breaks
+const PARAGRAPH_END_TAGS = new Set(['p', 'blockquote']);
+const LINE_END_TAGS = new Set(['li']);
+
+/**
+ * Splits HTML into chunks of at most maxLength characters, cutting at a paragraph, line,
+ * sentence or word boundary in that order of preference. Tags open at a cut are closed at the
+ * end of the chunk and reopened at the start of the next one, so every chunk is valid on its
+ * own. Only visible text counts unless countMarkup is set, like Telegram's limits.
+ */
+export function splitHtml(html: string, maxLength: number, options: SplitOptions = {}): string[] {
+    const { firstLength = maxLength, countMarkup = false } = options;
+    const units: SplitUnit[] = [];
+    const token = /<(\/?)([a-z][a-z0-9-]*)\b[^>]*>|&(?:#x[0-9a-f]+|#[0-9]+|[a-z]+);|[\s\S]/giu;
+    let match: RegExpExecArray | null;
+    while ((match = token.exec(html)) !== null) {
+        const [raw, closing, name] = match;
+        if (name) {
+            const tag = name.toLowerCase();
+            units.push({
+                raw,
+                length: countMarkup ? raw.length : 0,
+                tag: VOID_TAGS.has(tag) ? undefined : { name: tag, closing: closing === '/' }
+            });
+        } else {
+            // A character reference is one character of text
+            units.push({ raw, length: countMarkup || raw[0] !== '&' ? raw.length : 1 });
+        }
+    }
+
+    if (units.reduce((total, unit) => total + unit.length, 0) <= firstLength) {
+        return [html];
+    }
+
+    const chunks: string[] = [];
+    let carried: SplitUnit[] = []; // Tags open at the previous cut
+    let index = 0;
+
+    while (index < units.length) {
+        // Chunks don't start with the whitespace they were cut at
+        while (index < units.length && !units[index].tag && /^\s+$/.test(units[index].raw)) {
+            index++;
+        }
+        if (index === units.length) {
+            break;
+        }
+
+        const limit = chunks.length === 0 ? firstLength : maxLength;
+        let stack = carried;
+        let used = countMarkup ? carried.reduce((total, open) => total + open.raw.length, 0) : 0;
+        let end = index;
+        let best = -1; // Best boundary in the second half of the chunk
+        let bestPriority = -1;
+        let fallback = -1; // Last boundary in the first half, cutting there leaves a short chunk
+
+        for (let position = index; position < units.length; position++) {
+            const unit = units[position];
+            const nextStack = applyTag(stack, unit);
+            if (used + unit.length + (countMarkup ? closingLength(nextStack) : 0) > limit) {
+                break;
+            }
+            stack = nextStack;
+            used += unit.length;
+            end = position + 1;
+
+            const priority = breakPriority(units, position);
+            if (priority >= 0 && used > limit / 2) {
+                if (priority >= bestPriority) {
+                    best = end;
+                    bestPriority = priority;
+                }
+            } else if (priority >= 0) {
+                fallback = end;
+            }
+        }
+
+        let cut = end;
+        if (end < units.length) {
+            cut = best !== -1 ? best : fallback !== -1 ? fallback : end;
+        }
+        if (cut === index) {
+            // A single unit larger than the limit, send it anyway rather than loop forever
+            cut = index + 1;
+        }
+
+        const chunkUnits = units.slice(index, cut);
+        const open = chunkUnits.reduce((current, unit) => applyTag(current, unit), carried);
+        // A chunk cut after a line break doesn't end with it
+        const body = carried.map(unit => unit.raw).join('')
+            + chunkUnits.map(unit => unit.raw).join('').replace(/(?:\s|<br\s*\/?>)+$/i, '');
+        const closers = [...open].reverse().map(unit => `</${unit.tag?.name}>`).join('');
+        if (body.replace(/<[^>]+>/g, '').trim()) {
+            chunks.push(body + closers);
+        }
+
+        carried = open;
+        index = cut;
+    }
+
+    return chunks;
+}
+
+function applyTag(stack: SplitUnit[], unit: SplitUnit): SplitUnit[] {
+    if (!unit.tag) {
+        return stack;
+    }
+    if (!unit.tag.closing) {
+        return [...stack, unit];
+    }
+    const index = stack.map(open => open.tag?.name).lastIndexOf(unit.tag.name);
+    return index === -1 ? stack : stack.slice(0, index);
+}
+
+function closingLength(stack: SplitUnit[]): number {
+    return stack.reduce((total, open) => total + (open.tag?.name.length ?? 0) + 3, 0);
+}
+
+/**
+ * How good a place the end of the unit at position is for a cut: 3 after a blank line or
+ * paragraph, 2 after a line break or list item, 1 after a sentence, 0 after a word, -1 inside
+ * a word.
+ */
+function breakPriority(units: SplitUnit[], position: number): number {
+    const unit = units[position];
+    if (unit.tag) {
+        if (!unit.tag.closing) {
+            return -1;
+        }
+        return PARAGRAPH_END_TAGS.has(unit.tag.name) ? 3 : LINE_END_TAGS.has(unit.tag.name) ? 2 : -1;
+    }
+    if (/^<br\b/i.test(unit.raw)) {
+        return 2;
+    }
+    if (!/^\s$/.test(unit.raw)) {
+        return -1;
+    }
+    if (unit.raw === '\n') {
+        return units[position - 1]?.raw === '\n' ? 3 : 2;
+    }
+    return /^[.!?…]$/.test(units[position - 1]?.raw ?? '') ? 1 : 0;
+}
@@ -0,0 +1,30 @@
+/**
+ * Escapes text for Telegram's HTML parse mode, which only requires &, < and > to be escaped.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escapes text for a double-quoted HTML attribute.
+ */
+export function escapeAttribute(value: string): string {
+    return escapeHtml(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Decodes the character references that turn up in Intercom bodies.
+ */
+export function decodeHtmlEntities(html: string): string {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+    return html.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (reference, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+        }
+        return named[name.toLowerCase()] ?? reference;
+    });
+}
@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { LogLevel } from '../types';
+
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Values of these keys are never written out
+const SECRET_KEY = /token|secret|password|authorization|cookie|signature|api_?key/i;
+// Message content, only written out when payload logging is enabled
+const PAYLOAD_KEYS = new Set(['text', 'body', 'caption', 'content', 'excerpt', 'quote', 'html']);
+// Bot tokens also show up inside Bot API and file download URLs
+const BOT_TOKEN = /\d{6,}:[A-Za-z0-9_-]{30,}/g;
+const MAX_DEPTH = 6;
+
+const correlation = new AsyncLocalStorage<string>();
+
+/**
+ * Runs the callback with a correlation ID that every log line written during it carries,
+ * including lines from async work it starts. Generates an ID when none is given.
+ */
+export function withCorrelationId<T>(correlationId: string | undefined, callback: () => T): T {
+    return correlation.run(correlationId || createCorrelationId(), callback);
+}
+
+export function getCorrelationId(): string | undefined {
+    return correlation.getStore();
+}
+
+export function createCorrelationId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * Writes one JSON object per line: level, time, message, the logger's bindings, the current
+ * correlation ID and the given fields. Secrets are always redacted, message content unless
+ * payload logging is enabled.
+ */
+export class Logger {
+    constructor(
+        private bindings: LogFields = {},
+        private settings: { level: LogLevel; logPayloads: boolean } = { level: 'info', logPayloads: false }
+    ) {}
+
+    configure(settings: { level: LogLevel; logPayloads: boolean }): void {
+        // Children share the settings object, so they pick up the change too
+        Object.assign(this.settings, settings);
+    }
+
+    child(bindings: LogFields): Logger {
+        return new Logger({ ...this.bindings, ...bindings }, this.settings);
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.write('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.write('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.write('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.write('error', message, fields);
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        return LEVELS[level] >= LEVELS[this.settings.level];
+    }
+
+    private write(level: LogLevel, message: string, fields?: LogFields): void {
+        if (!this.isLevelEnabled(level)) {
+            return;
+        }
+
+        const entry = {
+            level,
+            time: new Date().toISOString(),
+            msg: message,
+            correlationId: getCorrelationId(),
+            ...this.bindings,
+            ...(this.redact(fields || {}, 0) as LogFields)
+        };
+        const line = JSON.stringify(entry) + '\n';
+        if (LEVELS[level] >= LEVELS.warn) {
+            process.stderr.write(line);
+        } else {
+            process.stdout.write(line);
+        }
+    }
+
+    private redact(value: unknown, depth: number, key?: string): unknown {
+        if (key && SECRET_KEY.test(key) && value !== undefined && value !== null && typeof value !== 'boolean') {
+            return '[REDACTED]';
+        }
+        if (key && PAYLOAD_KEYS.has(key) && !this.settings.logPayloads && typeof value === 'string') {
+            return `[${value.length} chars]`;
+        }
+        if (typeof value === 'string') {
+            return value.replace(BOT_TOKEN, '[REDACTED]');
+        }
+        if (value instanceof Error) {
+            const error = value as Error & { status?: number; statusCode?: number; code?: string };
+            return {
+                name: error.name,
+                message: this.redact(error.message, depth + 1),
+                code: error.code,
+                status: error.status ?? error.statusCode,
+                stack: this.redact(error.stack, depth + 1)
+            };
+        }
+        if (Buffer.isBuffer(value)) {
+            return `[${value.length} bytes]`;
+        }
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+        if (depth >= MAX_DEPTH) {
+            return '[Truncated]';
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redact(item, depth + 1));
+        }
+        return Object.fromEntries(
+            Object.entries(value).map(([name, item]) => [name, this.redact(item, depth + 1, name)])
+        );
+    }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,211 @@
+type Labels = Record<string, string | number>;
+
+// Seconds, suited to API calls and webhook handling
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labelNames: string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map(name => String(labels[name] ?? '')));
+}
+
+function formatLabels(labelNames: string[], key: string, extra: Labels = {}): string {
+    const values: string[] = JSON.parse(key);
+    const pairs = [
+        ...labelNames.map((name, index) => [name, values[index]]),
+        ...Object.entries(extra).map(([name, value]) => [name, String(value)])
+    ];
+    if (pairs.length === 0) {
+        return '';
+    }
+    const escape = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `{${pairs.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+interface Metric {
+    readonly name: string;
+    render(): string[];
+}
+
+export class Counter implements Metric {
+    private values = new Map<string, number>();
+
+    constructor(readonly name: string, readonly help: string, private labelNames: string[] = []) {}
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        const key = labelKey(this.labelNames, labels);
+        this.values.set(key, (this.values.get(key) || 0) + value);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        if (this.labelNames.length === 0 && this.values.size === 0) {
+            lines.push(`${this.name} 0`);
+        }
+        for (const [key, value] of this.values) {
+            lines.push(`${this.name}${formatLabels(this.labelNames, key)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * A gauge is either set directly or filled by a collector that runs on every scrape.
+ */
+export class Gauge implements Metric {
+    private values = new Map<string, number>();
+    private collector?: (gauge: Gauge) => Promise<void>;
+
+    constructor(readonly name: string, readonly help: string, private labelNames: string[] = []) {}
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(this.labelNames, labels), value);
+    }
+
+    collect(collector: (gauge: Gauge) => Promise<void>): void {
+        this.collector = collector;
+    }
+
+    async refresh(): Promise<void> {
+        await this.collector?.(this);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+        for (const [key, value] of this.values) {
+            lines.push(`${this.name}${formatLabels(this.labelNames, key)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+export class Histogram implements Metric {
+    private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        private labelNames: string[] = [],
+        private buckets: number[] = DEFAULT_BUCKETS
+    ) {}
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(this.labelNames, labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        for (let index = 0; index < this.buckets.length; index++) {
+            if (value <= this.buckets[index]) {
+                series.buckets[index]++;
+            }
+        }
+        series.sum += value;
+        series.count++;
+    }
+
+    /**
+     * Starts a timer, calling the returned function records the elapsed seconds.
+     */
+    startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+        const start = process.hrtime.bigint();
+        return (extraLabels: Labels = {}) => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe({ ...labels, ...extraLabels }, seconds);
+        };
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const [key, series] of this.series) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels(this.labelNames, key, { le: bound })} ${series.buckets[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(this.labelNames, key, { le: '+Inf' })} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(this.labelNames, key)} ${series.sum}`);
+            lines.push(`${this.name}_count${formatLabels(this.labelNames, key)} ${series.count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Holds the process's metrics and renders them in the Prometheus text format.
+ */
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+
+    counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.register(new Counter(name, help, labelNames));
+    }
+
+    gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+        return this.register(new Gauge(name, help, labelNames));
+    }
+
+    histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, labelNames, buckets));
+    }
+
+    async render(): Promise<string> {
+        await Promise.all(this.metrics.map(metric => metric instanceof Gauge ? metric.refresh() : undefined));
+        return this.metrics.map(metric => metric.render().join('\n')).join('\n\n') + '\n';
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Bridge metrics, shared by the services that record them
+export const messagesForwarded = metrics.counter(
+    'bridge_messages_forwarded_total',
+    'Messages forwarded between Telegram and Intercom',
+    ['direction']
+);
+export const messageFailures = metrics.counter(
+    'bridge_message_failures_total',
+    'Messages that could not be forwarded',
+    ['direction', 'reason']
+);
+export const queueDepth = metrics.gauge(
+    'bridge_queue_depth',
+    'Messages waiting in the retry queues of all groups',
+    ['direction']
+);
+export const deadLetters = metrics.gauge(
+    'bridge_dead_letters',
+    'Messages in the dead-letter list',
+    ['direction']
+);
+export const groupLockContention = metrics.counter(
+    'bridge_group_lock_contention_total',
+    'Messages that found their group\'s conversation being created by another worker'
+);
+export const webhookDuration = metrics.histogram(
+    'bridge_webhook_duration_seconds',
+    'Time taken to answer incoming webhooks',
+    ['source', 'status']
+);
+export const intercomApiDuration = metrics.histogram(
+    'bridge_intercom_api_duration_seconds',
+    'Latency of Intercom API calls',
+    ['operation', 'outcome']
+);
+export const rateLimitWait = metrics.histogram(
+    'bridge_rate_limit_wait_seconds',
+    'Time requests waited for the rate limiter',
+    ['limiter']
+);
+export const rateLimitQueued = metrics.gauge(
+    'bridge_rate_limit_queued_requests',
+    'Requests currently waiting for the rate limiter',
+    ['limiter']
+);
+export const rateLimitResponses = metrics.counter(
+    'bridge_rate_limit_responses_total',
+    'Requests the Telegram or Intercom API refused with 429 Too Many Requests',
+    ['api']
+);
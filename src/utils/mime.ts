@@ -0,0 +1,74 @@
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+// Leading bytes of the formats Telegram users commonly send
+const SIGNATURES: Array<{ mimeType: string; offset: number; bytes: number[] }> = [
+    { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+    { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+    { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+    { mimeType: 'audio/ogg', offset: 0, bytes: [0x4f, 0x67, 0x67, 0x53] },
+    { mimeType: 'video/webm', offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+    { mimeType: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33] },
+    { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { mimeType: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] }
+];
+
+const EXTENSIONS: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    pdf: 'application/pdf',
+    txt: 'text/plain',
+    csv: 'text/csv',
+    zip: 'application/zip',
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    oga: 'audio/ogg',
+    ogg: 'audio/ogg',
+    tgs: 'application/x-tgsticker'
+};
+
+function matchesSignature(data: Buffer, offset: number, bytes: number[]): boolean {
+    if (data.length < offset + bytes.length) {
+        return false;
+    }
+    return bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+/**
+ * Detects a file's MIME type from its content, falling back to the file extension.
+ */
+export function detectMimeType(data: Buffer, fileName?: string): string {
+    // RIFF containers need the format tag at offset 8 as well
+    if (matchesSignature(data, 0, [0x52, 0x49, 0x46, 0x46]) && matchesSignature(data, 8, [0x57, 0x45, 0x42, 0x50])) {
+        return 'image/webp';
+    }
+
+    for (const signature of SIGNATURES) {
+        if (matchesSignature(data, signature.offset, signature.bytes)) {
+            return signature.mimeType;
+        }
+    }
+
+    return mimeTypeFromFileName(fileName) || DEFAULT_MIME_TYPE;
+}
+
+export function mimeTypeFromFileName(fileName?: string): string | undefined {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    return extension ? EXTENSIONS[extension] : undefined;
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
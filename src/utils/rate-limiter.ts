@@ -0,0 +1,121 @@
+import { rateLimitQueued, rateLimitWait } from './metrics';
+
+export interface RateLimit {
+    capacity: number; // Requests that can be sent in a burst
+    perSecond: number; // Sustained rate the bucket refills at
+}
+
+/**
+ * A token bucket, callers wait in arrival order until a token is available.
+ */
+class TokenBucket {
+    private tokens: number;
+    private refilledAt = Date.now();
+    private pausedUntil = 0;
+    private tail: Promise<void> = Promise.resolve(); // Resolves when the last waiter got its token
+    waiting = 0;
+
+    constructor(private limit: RateLimit) {
+        this.tokens = limit.capacity;
+    }
+
+    take(): Promise<void> {
+        this.waiting++;
+        const turn = this.tail.then(() => this.waitForToken());
+        this.tail = turn.finally(() => {
+            this.waiting--;
+        });
+        return turn;
+    }
+
+    pause(ms: number): void {
+        this.refill();
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+        // The API refused what was left, the bucket holds a single token once the pause is over
+        this.tokens = Math.min(this.tokens, 1 - (this.pausedUntil - Date.now()) / 1000 * this.limit.perSecond);
+    }
+
+    isIdle(): boolean {
+        this.refill();
+        return this.waiting === 0 && this.tokens >= this.limit.capacity && this.pausedUntil <= Date.now();
+    }
+
+    private async waitForToken(): Promise<void> {
+        for (;;) {
+            this.refill();
+            const now = Date.now();
+            let delay: number;
+            if (this.pausedUntil > now) {
+                delay = this.pausedUntil - now;
+            } else if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            } else {
+                delay = Math.ceil((1 - this.tokens) / this.limit.perSecond * 1000);
+            }
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.limit.capacity, this.tokens + (now - this.refilledAt) / 1000 * this.limit.perSecond);
+        this.refilledAt = now;
+    }
+}
+
+/**
+ * Token-bucket rate limiting per destination, e.g. per Telegram chat. Requests over the limit
+ * wait for their turn instead of being dropped, and pause() holds a destination back for as
+ * long as the API asked after answering 429.
+ */
+export class RateLimiter {
+    private readonly MAX_IDLE_BUCKETS = 1000; // Full, idle buckets are dropped past this many
+    private buckets = new Map<string, TokenBucket>();
+
+    constructor(readonly name: string, private limit: RateLimit) {}
+
+    async acquire(key: string = 'default'): Promise<void> {
+        const bucket = this.getBucket(key);
+        const stopTimer = rateLimitWait.startTimer({ limiter: this.name });
+        this.updateQueued();
+        try {
+            await bucket.take();
+        } finally {
+            stopTimer();
+            this.updateQueued();
+        }
+    }
+
+    pause(key: string, ms: number): void {
+        this.getBucket(key).pause(ms);
+    }
+
+    private getBucket(key: string): TokenBucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            if (this.buckets.size >= this.MAX_IDLE_BUCKETS) {
+                this.pruneIdleBuckets();
+            }
+            bucket = new TokenBucket(this.limit);
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private pruneIdleBuckets(): void {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.isIdle()) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+
+    private updateQueued(): void {
+        let waiting = 0;
+        for (const bucket of this.buckets.values()) {
+            waiting += bucket.waiting;
+        }
+        rateLimitQueued.set({ limiter: this.name }, waiting);
+    }
+}
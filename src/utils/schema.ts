@@ -0,0 +1,92 @@
+/**
+ * The subset of JSON Schema used to describe and validate API payloads and the config file.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema; // A schema validates the values of unlisted keys
+    items?: JsonSchema;
+    enum?: string[];
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+    switch (type) {
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * Validates a value against a schema. Returns one message per problem, empty when valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+    if (!matchesType(value, schema.type)) {
+        return [`${path} must be of type ${schema.type}`];
+    }
+
+    const errors: string[] = [];
+    if (schema.type === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const name of schema.required || []) {
+            if (object[name] === undefined) {
+                errors.push(`${path}.${name} is required`);
+            }
+        }
+        for (const [name, property] of Object.entries(object)) {
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                errors.push(...validateSchema(property, propertySchema, `${path}.${name}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${name} is not allowed`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateSchema(property, schema.additionalProperties, `${path}.${name}`));
+            }
+        }
+    }
+
+    if (schema.type === 'array' && schema.items) {
+        const items = value as unknown[];
+        items.forEach((item, index) => errors.push(...validateSchema(item, schema.items as JsonSchema, `${path}[${index}]`)));
+    }
+
+    if (typeof value === 'string') {
+        if (schema.enum && !schema.enum.includes(value)) {
+            errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path} must match ${schema.pattern}`);
+        }
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path} must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path} must be at most ${schema.maxLength} characters`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} must be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} must be at most ${schema.maximum}`);
+        }
+    }
+
+    return errors;
+}